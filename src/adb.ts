@@ -2,56 +2,300 @@
 
 import * as c_proc from 'child_process';
 import * as path from 'path';
+import * as vscode from 'vscode';
 
-import {SpawnSyncReturns} from 'child_process';
+import { AdbClient } from './adbClient';
 
-class AbdExecError extends Error {
-    constructor(result: SpawnSyncReturns<Buffer>) {
-        result.status !== null
-            ? super(`exited ${result.status}, stderr = ${result.stderr.toString()}, stdout = ${result.stdout.toString()}`)
-            : super(`killed ${result.signal}, stderr = ${result.stderr.toString()}, stdout = ${result.stdout.toString()}`);
+/**
+ * Default time limit of an ADB command, long enough for "adb start-server" on the first call.
+ */
+export const ADB_DEFAULT_TIMEOUT = 10e3;
+
+export interface AdbExecOptions {
+    /**
+     * Milliseconds before the process is killed and the call fails with {@link AdbTimeoutError}.
+     */
+    timeout?: number;
+    token?: vscode.CancellationToken;
+}
+
+export interface AdbResult {
+    status: number;
+    stdout: Buffer;
+    stderr: Buffer;
+}
+
+/**
+ * An entry of "adb devices -l", e.g. "emulator-5554 device product:sdk model:Pixel device:generic transport_id:1".
+ */
+export interface AdbDeviceEntry {
+    serial: string;
+    /**
+     * "device" when usable, otherwise "unauthorized", "offline", "recovery"...
+     */
+    state: string;
+    properties: { [key: string]: string };
+}
+
+/**
+ * A rule of "adb forward --list", e.g. "emulator-5554 tcp:6348 tcp:7347".
+ */
+export interface AdbForward {
+    serial: string;
+    local: string;
+    remote: string;
+}
+
+export class AdbError extends Error {
+}
+
+export class AdbNotFoundError extends AdbError {
+    constructor() {
+        super('ADB 可能未安装或未被正确配置');
+    }
+}
+
+/**
+ * No ADB server listens on the expected port, so the adb binary has to be spawned (which starts one).
+ */
+export class AdbServerUnavailableError extends AdbError {
+    constructor(port: number) {
+        super(`ADB 服务未在端口 ${port} 上运行`);
+    }
+}
+
+export class AdbTimeoutError extends AdbError {
+    constructor(args: ReadonlyArray<string>, timeout: number) {
+        super(`ADB 命令未在 ${timeout} ms 内完成: adb ${args.join(' ')}`);
     }
 }
 
+export class AdbCancelledError extends AdbError {
+    constructor() {
+        super('ADB 命令已取消');
+    }
+}
+
+export class AdbDeviceUnauthorizedError extends AdbError {
+    readonly serial: string;
+
+    constructor(serial: string) {
+        super(`设备 ${serial} 未授权 USB 调试, 请在设备上允许调试后重试`);
+        this.serial = serial;
+    }
+}
+
+export class AdbDeviceOfflineError extends AdbError {
+    readonly serial: string;
+
+    constructor(serial: string) {
+        super(`设备 ${serial} 处于离线状态, 请重新插拔设备或重启 ADB 服务`);
+        this.serial = serial;
+    }
+}
+
+export class AdbExecError extends AdbError {
+    readonly result: AdbResult;
+
+    constructor(result: AdbResult) {
+        super(`exited ${result.status}, stderr = ${result.stderr.toString()}, stdout = ${result.stdout.toString()}`);
+        this.result = result;
+    }
+}
+
+/**
+ * ADB access preferring the smart-socket protocol of a running ADB server, which needs no adb binary,
+ * and falling back on spawning adb (or the bundled adb.exe) when no server is running yet.
+ */
 export class Adb {
+    readonly client: AdbClient;
+
     private readonly prebuiltDir: string;
-    private adb: string = null;
+    private adb: Promise<string> = null;
 
-    constructor(prebuiltDir: string) {
+    constructor(prebuiltDir: string, client: AdbClient = new AdbClient()) {
         this.prebuiltDir = prebuiltDir;
+        this.client = client;
     }
 
-    executable(): string {
+    executable(): Promise<string> {
         if (this.adb === null) {
-            if (process.platform.startsWith('win') && c_proc.spawnSync('adb').pid === 0) {
-                this.adb = path.join(this.prebuiltDir, 'adb.exe');
-            } else {
-                this.adb = 'adb';
-            }
+            this.adb = process.platform.startsWith('win')
+                ? Adb.spawn('adb', [ 'version' ], {}).then(() => 'adb', () => path.join(this.prebuiltDir, 'adb.exe'))
+                : Promise.resolve('adb');
         }
         return this.adb;
     }
 
-    exec(args: ReadonlyArray<string>): SpawnSyncReturns<Buffer> {
-        return c_proc.spawnSync(this.executable(), args);
+    /**
+     * Runs an ADB command, resolving with its result whatever the exit status.
+     * Rejects with {@link AdbNotFoundError}, {@link AdbTimeoutError} or {@link AdbCancelledError}.
+     */
+    async exec(args: ReadonlyArray<string>, options: AdbExecOptions = {}): Promise<AdbResult> {
+        return Adb.spawn(await this.executable(), args, options);
     }
 
-    execOrThrow(args: ReadonlyArray<string>): SpawnSyncReturns<Buffer> {
-        return Adb.throwsIfNeeded(this.exec(args));
+    /**
+     * Like {@link exec}, but rejects with a typed {@link AdbError} unless the command succeeds.
+     */
+    async execOrThrow(args: ReadonlyArray<string>, options: AdbExecOptions = {}): Promise<AdbResult> {
+        return Adb.throwsIfNeeded(args, await this.exec(args, options));
     }
 
-    execOut(args: ReadonlyArray<string>, options: Object): SpawnSyncReturns<Buffer> {
-        return c_proc.spawnSync(this.executable(), ['exec-out', ...args], Object.assign({encoding: 'buffer'}, options));
+    devices(options: AdbExecOptions = {}): Promise<AdbDeviceEntry[]> {
+        return this.viaServer(client => client.devices(options), async () => {
+            let res = await this.execOrThrow([ 'devices', '-l' ], options);
+            return Adb.parseDevices(res.stdout.toString());
+        });
     }
 
-    execOutOrThrow(args: ReadonlyArray<string>, options: Object): SpawnSyncReturns<Buffer> {
-        return Adb.throwsIfNeeded(this.execOut(args, options));
+    forward(serial: string, local: number, remote: number, options: AdbExecOptions = {}): Promise<void> {
+        return this.viaServer(client => client.forward(serial, local, remote, options), async () => {
+            await this.execOrThrow([ '-s', serial, 'forward', `tcp:${local}`, `tcp:${remote}` ], options);
+        });
     }
 
-    static throwsIfNeeded<T extends SpawnSyncReturns<Buffer>>(result: T): T {
-        if (result.signal !== null || result.status !== 0) {
-            throw new AbdExecError(result);
+    /**
+     * Forwards live in the ADB server, so there is none to list or remove when no server is running.
+     */
+    async listForwards(options: AdbExecOptions = {}): Promise<AdbForward[]> {
+        return this.viaServer(client => client.listForwards(options), async () => []);
+    }
+
+    async removeForward(serial: string, local: number, options: AdbExecOptions = {}): Promise<void> {
+        return this.viaServer(client => client.removeForward(serial, local, options), async () => undefined);
+    }
+
+    /**
+     * Runs a shell command on the device and resolves with its output, stderr included.
+     */
+    shell(serial: string, command: string, options: AdbExecOptions = {}): Promise<Buffer> {
+        return this.viaServer(client => client.shell(serial, command, options), async () => {
+            let res = await this.execOrThrow([ '-s', serial, 'shell', command ], options);
+            return Buffer.concat([ res.stdout, res.stderr ]);
+        });
+    }
+
+    /**
+     * Runs a command on the device and resolves with its raw binary output.
+     */
+    execOut(serial: string, command: string, options: AdbExecOptions = {}): Promise<Buffer> {
+        return this.viaServer(client => client.execOut(serial, command, options), async () => {
+            return (await this.execOrThrow([ '-s', serial, 'exec-out', command ], options)).stdout;
+        });
+    }
+
+    pair(address: string, code: string, options: AdbExecOptions = {}): Promise<string> {
+        return this.viaServer(client => client.pair(address, code, options), async () => {
+            let res = await this.execOrThrow([ 'pair', address, code ], options);
+            return AdbClient.checkOutcome(res.stdout.toString().trim(), /^Successfully paired/);
+        });
+    }
+
+    connectDevice(address: string, options: AdbExecOptions = {}): Promise<string> {
+        return this.viaServer(client => client.connectDevice(address, options), async () => {
+            let res = await this.execOrThrow([ 'connect', address ], options);
+            return AdbClient.checkOutcome(res.stdout.toString().trim(), /^(already )?connected to/);
+        });
+    }
+
+    tcpip(serial: string, port: number, options: AdbExecOptions = {}): Promise<string> {
+        return this.viaServer(client => client.tcpip(serial, port, options), async () => {
+            let res = await this.execOrThrow([ '-s', serial, 'tcpip', String(port) ], options);
+            return AdbClient.checkOutcome(res.stdout.toString().trim(), /^restarting in TCP mode/);
+        });
+    }
+
+    async getprop(serial: string, name: string, options: AdbExecOptions = {}): Promise<string> {
+        return (await this.shell(serial, `getprop ${name}`, options)).toString().trim();
+    }
+
+    static parseDevices(output: string): AdbDeviceEntry[] {
+        return output.split(/\r?\n/)
+            .map(line => line.trim().match(/^(\S+)\s+(device|unauthorized|offline|recovery|sideload|bootloader|no permissions|authorizing|connecting)\b\s*(.*)$/))
+            .filter(matched => matched !== null)
+            .map(([ , serial, state, rest ]) => {
+                let properties: { [key: string]: string } = {};
+                // "no permissions" comes with an explanation instead of key:value pairs
+                for (let matched of rest.matchAll(/(\w+):(\S+)/g)) {
+                    properties[matched[1]] = matched[2];
+                }
+                return { serial, state, properties };
+            });
+    }
+
+    static parseForwards(output: string): AdbForward[] {
+        return output.split(/\r?\n/)
+            .map(line => line.trim().split(/\s+/))
+            .filter(fields => fields.length === 3)
+            .map(([ serial, local, remote ]) => ({ serial, local, remote }));
+    }
+
+    static throwsIfNeeded(args: ReadonlyArray<string>, result: AdbResult): AdbResult {
+        if (result.status === 0) {
+            return result;
+        }
+        let serial = args[0] === '-s' ? args[1] : 'Unknown';
+        let stderr = result.stderr.toString();
+        if (/\bunauthorized\b/.test(stderr)) {
+            throw new AdbDeviceUnauthorizedError(serial);
+        }
+        if (/\boffline\b/.test(stderr)) {
+            throw new AdbDeviceOfflineError(serial);
+        }
+        throw new AdbExecError(result);
+    }
+
+    private async viaServer<T>(request: (client: AdbClient) => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+        try {
+            return await request(this.client);
+        } catch (e) {
+            if (e instanceof AdbServerUnavailableError) {
+                return fallback();
+            }
+            throw e;
         }
-        return result;
     }
-}
\ No newline at end of file
+
+    private static spawn(command: string, args: ReadonlyArray<string>, options: AdbExecOptions): Promise<AdbResult> {
+        let timeout = options.timeout ?? ADB_DEFAULT_TIMEOUT;
+
+        return new Promise<AdbResult>((resolve, reject) => {
+            if (options.token?.isCancellationRequested) {
+                return reject(new AdbCancelledError());
+            }
+            let stdout: Buffer[] = [];
+            let stderr: Buffer[] = [];
+            let child = c_proc.spawn(command, args, { windowsHide: true });
+            let settled = false;
+
+            let settle = (action: () => void) => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    cancellation?.dispose();
+                    action();
+                }
+            };
+            let timer = setTimeout(() => settle(() => {
+                child.kill();
+                reject(new AdbTimeoutError(args, timeout));
+            }), timeout);
+            let cancellation = options.token?.onCancellationRequested(() => settle(() => {
+                child.kill();
+                reject(new AdbCancelledError());
+            }));
+
+            child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+            child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+            child.on('error', (e: NodeJS.ErrnoException) => settle(() => {
+                reject(e.code === 'ENOENT' ? new AdbNotFoundError() : e);
+            }));
+            child.on('close', (status, signal) => settle(() => resolve({
+                status: status ?? (signal ? -1 : 0),
+                stdout: Buffer.concat(stdout),
+                stderr: Buffer.concat(stderr),
+            })));
+        });
+    }
+}
@@ -0,0 +1,323 @@
+'use strict';
+
+import * as net from 'net';
+import * as events from 'events';
+
+import {
+    Adb,
+    AdbCancelledError,
+    AdbDeviceEntry,
+    AdbDeviceOfflineError,
+    AdbDeviceUnauthorizedError,
+    AdbError,
+    AdbExecOptions,
+    AdbForward,
+    AdbServerUnavailableError,
+    AdbTimeoutError,
+    ADB_DEFAULT_TIMEOUT,
+} from './adb';
+
+export const ADB_SERVER_PORT = 5037;
+
+/**
+ * Reads a socket of the ADB server chunk by chunk, as the smart-socket protocol mixes status words,
+ * length-prefixed payloads and raw streams.
+ */
+class AdbConnection {
+    private readonly socket: net.Socket;
+    private buffer = Buffer.alloc(0);
+    private ended = false;
+    private failure: Error = null;
+    private wakeUp: () => void = null;
+
+    constructor(socket: net.Socket) {
+        this.socket = socket;
+        socket.on('data', (chunk: Buffer) => {
+            this.buffer = Buffer.concat([ this.buffer, chunk ]);
+            this.notify();
+        });
+        socket.on('end', () => {
+            this.ended = true;
+            this.notify();
+        });
+        socket.on('close', () => {
+            this.ended = true;
+            this.notify();
+        });
+        socket.on('error', (e) => {
+            this.failure = e;
+            this.notify();
+        });
+    }
+
+    send(service: string) {
+        let payload = Buffer.from(service, 'utf8');
+        this.socket.write(Buffer.concat([ Buffer.from(payload.length.toString(16).padStart(4, '0'), 'ascii'), payload ]));
+    }
+
+    /**
+     * Reads the "OKAY" status word, or throws with the message following "FAIL".
+     */
+    async readStatus(serial?: string): Promise<void> {
+        let status = (await this.read(4)).toString('ascii');
+        if (status === 'OKAY') {
+            return;
+        }
+        if (status === 'FAIL') {
+            throw AdbClient.errorOf(await this.readString(), serial);
+        }
+        throw new AdbError(`ADB 服务返回了无法识别的状态: ${status}`);
+    }
+
+    async readString(): Promise<string> {
+        let length = parseInt((await this.read(4)).toString('ascii'), 16);
+        return (await this.read(length)).toString('utf8');
+    }
+
+    async read(length: number): Promise<Buffer> {
+        while (this.buffer.length < length) {
+            await this.waitForData();
+        }
+        let result = this.buffer.subarray(0, length);
+        this.buffer = this.buffer.subarray(length);
+        return result;
+    }
+
+    /**
+     * Reads everything until the server closes the stream, e.g. the output of a shell command.
+     */
+    async readAll(): Promise<Buffer> {
+        while (!this.ended) {
+            await this.waitForData(true);
+        }
+        let result = this.buffer;
+        this.buffer = Buffer.alloc(0);
+        return result;
+    }
+
+    close() {
+        this.socket.destroy();
+    }
+
+    private waitForData(untilEnd: boolean = false): Promise<void> {
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+        if (this.ended) {
+            return untilEnd ? Promise.resolve() : Promise.reject(new AdbError('ADB 服务意外关闭了连接'));
+        }
+        return new Promise<void>(resolve => this.wakeUp = resolve);
+    }
+
+    private notify() {
+        let wakeUp = this.wakeUp;
+        this.wakeUp = null;
+        wakeUp?.();
+    }
+}
+
+/**
+ * Follows "host:track-devices-l", emitting "change" with the full device list whenever it changes,
+ * then "end" (with the error, if any) once the ADB server goes away or {@link stop} is called.
+ */
+export class AdbDeviceTracker extends events.EventEmitter {
+    private readonly client: AdbClient;
+    private connection: AdbConnection = null;
+    private stopped = false;
+
+    constructor(client: AdbClient) {
+        super();
+        this.client = client;
+    }
+
+    async start(): Promise<void> {
+        this.connection = await this.client.connect({ timeout: ADB_DEFAULT_TIMEOUT });
+        this.connection.send('host:track-devices-l');
+        try {
+            await this.connection.readStatus();
+        } catch (e) {
+            this.connection.close();
+            throw e;
+        }
+        this.loop();
+    }
+
+    stop() {
+        this.stopped = true;
+        this.connection?.close();
+    }
+
+    private async loop() {
+        try {
+            while (!this.stopped) {
+                this.emit('change', Adb.parseDevices(await this.connection.readString()));
+            }
+            this.emit('end', null);
+        } catch (e) {
+            this.emit('end', this.stopped ? null : e);
+        }
+    }
+}
+
+/**
+ * Client of the ADB server's smart-socket protocol, so that no adb binary is needed once a server is running.
+ *
+ * Each request opens a connection to the server and sends a 4-hex-digit length followed by the service name;
+ * the server answers "OKAY" or "FAIL" followed by a length-prefixed message.
+ */
+export class AdbClient {
+    readonly port: number;
+    readonly host: string;
+
+    constructor(port: number = ADB_SERVER_PORT, host: string = '127.0.0.1') {
+        this.port = port;
+        this.host = host;
+    }
+
+    async version(options: AdbExecOptions = {}): Promise<number> {
+        return this.request('host:version', options, async (connection) => {
+            return parseInt(await connection.readString(), 16);
+        });
+    }
+
+    async devices(options: AdbExecOptions = {}): Promise<AdbDeviceEntry[]> {
+        return this.request('host:devices-l', options, async (connection) => {
+            return Adb.parseDevices(await connection.readString());
+        });
+    }
+
+    /**
+     * Forwards a local TCP port to a port of the device, e.g. forward("serial", 6348, 7347).
+     */
+    async forward(serial: string, local: number, remote: number, options: AdbExecOptions = {}): Promise<void> {
+        // The first "OKAY" acknowledges the service, the second one reports the result of forwarding.
+        return this.request(`host-serial:${serial}:forward:tcp:${local};tcp:${remote}`, options, async (connection) => {
+            await connection.readStatus(serial);
+        }, serial);
+    }
+
+    async listForwards(options: AdbExecOptions = {}): Promise<AdbForward[]> {
+        return this.request('host:list-forward', options, async (connection) => {
+            return Adb.parseForwards(await connection.readString());
+        });
+    }
+
+    async removeForward(serial: string, local: number, options: AdbExecOptions = {}): Promise<void> {
+        return this.request(`host-serial:${serial}:killforward:tcp:${local}`, options, async (connection) => {
+            await connection.readStatus(serial);
+        }, serial);
+    }
+
+    /**
+     * Runs a shell command on the device and resolves with its output, stderr included.
+     */
+    async shell(serial: string, command: string, options: AdbExecOptions = {}): Promise<Buffer> {
+        return this.transport(serial, `shell:${command}`, options, connection => connection.readAll());
+    }
+
+    /**
+     * Runs a command on the device with a raw, unmangled output stream, e.g. "screencap -p".
+     */
+    async execOut(serial: string, command: string, options: AdbExecOptions = {}): Promise<Buffer> {
+        return this.transport(serial, `exec:${command}`, options, connection => connection.readAll());
+    }
+
+    /**
+     * Pairs with a device in Android 11+ wireless debugging, using the address and code of its pairing dialog.
+     */
+    async pair(address: string, code: string, options: AdbExecOptions = {}): Promise<string> {
+        return this.request(`host:pair:${code}:${address}`, options, async (connection) => {
+            return AdbClient.checkOutcome(await connection.readString(), /^Successfully paired/);
+        });
+    }
+
+    /**
+     * Connects the ADB server to a device listening over TCP; its serial is then the address.
+     */
+    async connectDevice(address: string, options: AdbExecOptions = {}): Promise<string> {
+        return this.request(`host:connect:${address}`, options, async (connection) => {
+            return AdbClient.checkOutcome(await connection.readString(), /^(already )?connected to/);
+        });
+    }
+
+    /**
+     * Restarts adbd of a USB device listening on the given TCP port (legacy wireless debugging).
+     */
+    async tcpip(serial: string, port: number, options: AdbExecOptions = {}): Promise<string> {
+        return this.transport(serial, `tcpip:${port}`, options, async (connection) => {
+            return AdbClient.checkOutcome((await connection.readAll()).toString().trim(), /^restarting in TCP mode/);
+        });
+    }
+
+    trackDevices(): AdbDeviceTracker {
+        return new AdbDeviceTracker(this);
+    }
+
+    /**
+     * Connects to the ADB server, rejecting with {@link AdbServerUnavailableError} when none is running.
+     */
+    connect(options: AdbExecOptions): Promise<AdbConnection> {
+        return new Promise<AdbConnection>((resolve, reject) => {
+            if (options.token?.isCancellationRequested) {
+                return reject(new AdbCancelledError());
+            }
+            let socket = net.connect(this.port, this.host);
+            let onError = (e: NodeJS.ErrnoException) => {
+                socket.destroy();
+                reject(e.code === 'ECONNREFUSED' ? new AdbServerUnavailableError(this.port) : e);
+            };
+            socket.once('error', onError);
+            socket.once('connect', () => {
+                socket.removeListener('error', onError);
+                resolve(new AdbConnection(socket));
+            });
+        });
+    }
+
+    static errorOf(message: string, serial?: string): AdbError {
+        if (/\bunauthorized\b/.test(message)) {
+            return new AdbDeviceUnauthorizedError(serial || 'Unknown');
+        }
+        if (/\boffline\b/.test(message)) {
+            return new AdbDeviceOfflineError(serial || 'Unknown');
+        }
+        return new AdbError(message);
+    }
+
+    /**
+     * Services like "pair" and "connect" answer "OKAY" in any case, followed by a message telling the outcome.
+     */
+    static checkOutcome(message: string, success: RegExp): string {
+        if (!success.test(message)) {
+            throw new AdbError(message || 'ADB 服务未返回结果');
+        }
+        return message;
+    }
+
+    private transport<T>(serial: string, service: string, options: AdbExecOptions, read: (connection: AdbConnection) => Promise<T>): Promise<T> {
+        return this.request(`host:transport:${serial}`, options, async (connection) => {
+            connection.send(service);
+            await connection.readStatus(serial);
+            return read(connection);
+        }, serial);
+    }
+
+    private async request<T>(service: string, options: AdbExecOptions, read: (connection: AdbConnection) => Promise<T>, serial?: string): Promise<T> {
+        let timeout = options.timeout ?? ADB_DEFAULT_TIMEOUT;
+        let connection = await this.connect(options);
+        let timer: NodeJS.Timeout;
+        let cancellation: { dispose(): any };
+        try {
+            return await new Promise<T>((resolve, reject) => {
+                timer = setTimeout(() => reject(new AdbTimeoutError([ service ], timeout)), timeout);
+                cancellation = options.token?.onCancellationRequested(() => reject(new AdbCancelledError()));
+                connection.send(service);
+                connection.readStatus(serial).then(() => read(connection)).then(resolve, reject);
+            });
+        } finally {
+            clearTimeout(timer);
+            cancellation?.dispose();
+            connection.close();
+        }
+    }
+}
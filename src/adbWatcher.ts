@@ -0,0 +1,87 @@
+import * as events from 'events';
+
+import { Adb, AdbServerUnavailableError } from './adb';
+import { AdbDeviceTracker } from './adbClient';
+import { logDebug } from './extension';
+
+const RESTART_DELAY = 5e3;
+
+/**
+ * Watches "adb track-devices" and emits "attached" with the serial of each device becoming usable
+ * (plugged in and authorized) and "detached" once it is unplugged or goes offline.
+ *
+ * The tracking connection is restarted when the ADB server goes away, e.g. after "adb kill-server".
+ */
+export class AdbWatcher extends events.EventEmitter {
+    private readonly adb: Adb;
+    private tracker: AdbDeviceTracker = null;
+    private restartTimer: NodeJS.Timeout = null;
+    private usable = new Set<string>();
+    private running = false;
+
+    constructor(adb: Adb) {
+        super();
+        this.adb = adb;
+    }
+
+    get serials(): string[] {
+        return Array.from(this.usable);
+    }
+
+    start() {
+        if (!this.running) {
+            this.running = true;
+            this.track();
+        }
+    }
+
+    stop() {
+        this.running = false;
+        clearTimeout(this.restartTimer);
+        this.restartTimer = null;
+        this.tracker?.stop();
+        this.tracker = null;
+        this.usable.clear();
+    }
+
+    private async track() {
+        let tracker = this.adb.client.trackDevices();
+        this.tracker = tracker;
+        tracker.on('change', (entries) => {
+            let usable = new Set<string>(entries.filter(e => e.state === 'device').map(e => e.serial));
+            this.usable.forEach(serial => usable.has(serial) || this.emit('detached', serial));
+            usable.forEach(serial => this.usable.has(serial) || this.emit('attached', serial));
+            this.usable = usable;
+        });
+        tracker.on('end', (e) => {
+            if (e) {
+                logDebug('ADB device tracking interrupted: ', e);
+            }
+            this.scheduleRestart(tracker);
+        });
+        try {
+            await tracker.start();
+        } catch (e) {
+            if (e instanceof AdbServerUnavailableError) {
+                // Starting the ADB server needs the adb binary, as there is no server to talk to yet.
+                await this.adb.exec([ 'start-server' ]).catch(e => logDebug('failed to start ADB server: ', e));
+            } else {
+                logDebug('failed to track ADB devices: ', e);
+            }
+            this.scheduleRestart(tracker);
+        }
+    }
+
+    private scheduleRestart(tracker: AdbDeviceTracker) {
+        if (!this.running || this.tracker !== tracker || this.restartTimer !== null) {
+            return;
+        }
+        // Devices are reported again by the next tracking connection.
+        this.usable.forEach(serial => this.emit('detached', serial));
+        this.usable.clear();
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = null;
+            this.running && this.track();
+        }, RESTART_DELAY);
+    }
+}
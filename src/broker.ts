@@ -0,0 +1,583 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as events from 'events';
+import * as vscode from 'vscode';
+
+import { ConnectionTarget, Device, DeviceRelay, Devices, DeviceState, LogData } from './device';
+import { Project } from './project';
+import { AckData, Capability, RequestOptions } from './protocol';
+import { logDebug, ProjectCommands } from './extension';
+
+const REQUEST_TIMEOUT = 30e3;
+const PROJECT_REQUEST_TIMEOUT = 5 * 60e3;
+const HANDOVER_MAX_DELAY = 500;
+const MAX_START_ATTEMPTS = 3;
+
+function userName() {
+    try {
+        return os.userInfo().username;
+    } catch (e) {
+        // No user entry, e.g. in some containers
+        return 'default';
+    }
+}
+
+/**
+ * Local IPC endpoint through which the VSCode windows of a user share the device connections owned by one of them.
+ */
+export const BROKER_PATH = process.platform === 'win32'
+    ? `\\\\.\\pipe\\autojs6-broker-${userName()}`
+    : path.join(os.tmpdir(), `autojs6-broker-${userName()}.sock`);
+
+/**
+ * "host" for the window owning the sockets, "guest" for windows relaying through it.
+ */
+export type BrokerRole = 'host' | 'guest';
+
+export interface ListenerInfo {
+    port: number;
+    /**
+     * Pairing code of the host window, null if pairing is not required.
+     */
+    pairingCode: string;
+}
+
+/**
+ * What the host window provides to its guests beyond the devices themselves.
+ */
+export interface BrokerHooks {
+    listener(): ListenerInfo;
+
+    issueOneTimeCode(): string;
+
+    revokeOneTimeCode(code: string): void;
+
+    /**
+     * Forwards the ports of an ADB device and connects to it, so that the forwards belong to the window owning the device.
+     */
+    connectToAdb(adbDeviceId: string): Promise<void>;
+}
+
+export interface DeviceSnapshot {
+    deviceId: string;
+    deviceName: string;
+    appVersion: string;
+    address: string;
+    host: string;
+    adbDeviceId: string;
+    connectionType: number;
+    state: DeviceState;
+    target: ConnectionTarget;
+    capabilities: Capability[];
+}
+
+interface BrokerMessage {
+    /**
+     * Present on requests and their replies only.
+     */
+    id?: number;
+    type: string;
+    data?: any;
+    error?: string;
+}
+
+interface SettledResult {
+    status: 'fulfilled' | 'rejected';
+    value?: AckData;
+    reason?: string;
+}
+
+function snapshotOf(device: Device): DeviceSnapshot {
+    return {
+        deviceId: device.deviceId,
+        deviceName: device.deviceName,
+        appVersion: device.appVersion,
+        address: device.connection ? device.connectionToString() : null,
+        host: device.host,
+        adbDeviceId: device.adbDeviceId,
+        connectionType: device.connectionType,
+        state: device.state,
+        target: device.target,
+        capabilities: Array.from(device.capabilities),
+    };
+}
+
+/**
+ * Newline-delimited JSON messages over an IPC socket, with replies matched to requests by id.
+ */
+class BrokerChannel extends events.EventEmitter {
+    private readonly socket: net.Socket;
+    private readonly pending = new Map<number, { resolve: (data: any) => void, reject: (e: Error) => void, timer: NodeJS.Timeout }>();
+    private nextId = 1;
+    private buffer = '';
+
+    constructor(socket: net.Socket) {
+        super();
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => {
+            let lines = (this.buffer + chunk).split('\n');
+            this.buffer = lines.pop();
+            lines.filter(Boolean).forEach((line) => {
+                try {
+                    this.onMessage(JSON.parse(line));
+                } catch (e) {
+                    logDebug('ignored malformed broker message: ', e);
+                }
+            });
+        });
+        socket.on('error', e => logDebug('broker channel error: ', e));
+        socket.on('close', () => {
+            this.pending.forEach(({ reject, timer }) => {
+                clearTimeout(timer);
+                reject(new Error('与持有设备连接的 VSCode 窗口的通信已中断'));
+            });
+            this.pending.clear();
+            this.emit('close');
+        });
+    }
+
+    send(message: BrokerMessage) {
+        if (!this.socket.destroyed) {
+            this.socket.write(JSON.stringify(message) + '\n');
+        }
+    }
+
+    request(type: string, data: object = {}, timeout: number = REQUEST_TIMEOUT): Promise<any> {
+        let id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            let timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`请求 ${type} 超时`));
+            }, timeout);
+            this.pending.set(id, { resolve, reject, timer });
+            this.send({ id, type, data });
+        });
+    }
+
+    reply(request: BrokerMessage, result: Promise<any>) {
+        result.then((data) => {
+            this.send({ id: request.id, type: 'reply', data });
+        }, (e) => {
+            this.send({ id: request.id, type: 'reply', error: e instanceof Error ? e.message : String(e) });
+        });
+    }
+
+    close() {
+        this.socket.destroy();
+    }
+
+    private onMessage(message: BrokerMessage) {
+        if (message.type !== 'reply') {
+            this.emit('message', message);
+            return;
+        }
+        let pending = this.pending.get(message.id);
+        if (pending) {
+            this.pending.delete(message.id);
+            clearTimeout(pending.timer);
+            if (message.error === undefined) {
+                pending.resolve(message.data);
+            } else {
+                pending.reject(new Error(message.error));
+            }
+        }
+    }
+}
+
+/**
+ * Device whose connection is owned by the host window, which everything sent to it is relayed to.
+ */
+export class RemoteDevice extends Device {
+    private readonly channel: BrokerChannel;
+    private address: string = null;
+
+    constructor(channel: BrokerChannel, snapshot: DeviceSnapshot) {
+        super(null);
+        this.channel = channel;
+        this.update(snapshot);
+        this.state = snapshot.state;
+    }
+
+    update(snapshot: DeviceSnapshot) {
+        this.deviceId = snapshot.deviceId;
+        this.name = snapshot.deviceName;
+        this.version = snapshot.appVersion;
+        this.address = snapshot.address;
+        this.host = snapshot.host;
+        this.adbDeviceId = snapshot.adbDeviceId;
+        this.target = snapshot.target;
+        this.capabilities = new Set(snapshot.capabilities);
+    }
+
+    request(type: string, data: object = {}, options: RequestOptions = {}): Promise<AckData> {
+        return this.channel.request('device_request', {
+            deviceId: this.deviceId,
+            type,
+            data,
+            options,
+        }, (options.timeout || 0) + REQUEST_TIMEOUT);
+    }
+
+    disconnect() {
+        this.channel.send({ type: 'disconnect', data: { deviceId: this.deviceId } });
+    }
+
+    toString() {
+        return `${this.displayName}${this.address ? ` (${this.address})` : ''}`;
+    }
+}
+
+/**
+ * Serves the devices of the window owning the sockets to the guest windows.
+ */
+class BrokerHost {
+    private readonly server: net.Server;
+    private readonly client: Devices;
+    private readonly hooks: BrokerHooks;
+    private readonly guests = new Set<BrokerChannel>();
+    private readonly listeners: [ string, (...args: any[]) => void ][];
+
+    constructor(server: net.Server, client: Devices, hooks: BrokerHooks) {
+        this.server = server;
+        this.client = client;
+        this.hooks = hooks;
+
+        server.on('connection', socket => this.accept(new BrokerChannel(socket)));
+
+        this.listeners = [
+            [ 'new_device', (device: Device, type: number, isReattached: boolean) => {
+                this.broadcast('new_device', { device: snapshotOf(device), isReattached });
+            } ],
+            [ 'detach_device', (device: Device) => this.broadcast('detach_device', { device: snapshotOf(device) }) ],
+            [ 'device_state', (device: Device, state: DeviceState) => this.broadcast('device_state', { deviceId: device.deviceId, state }) ],
+            [ 'reconnect_failed', (device: Device) => this.broadcast('reconnect_failed', { device: snapshotOf(device) }) ],
+            [ 'log', (data: LogData) => this.broadcast('log', { deviceId: data.device.deviceId, log: data.log }) ],
+        ];
+        this.listeners.forEach(([ event, listener ]) => client.on(event, listener));
+    }
+
+    dispose() {
+        this.listeners.forEach(([ event, listener ]) => this.client.removeListener(event, listener));
+        this.guests.forEach(guest => guest.close());
+        this.server.close();
+    }
+
+    private accept(guest: BrokerChannel) {
+        logDebug(`broker guest joined, ${this.guests.size + 1} guest(s) in total`);
+
+        this.guests.add(guest);
+        guest.on('close', () => this.guests.delete(guest));
+        guest.on('message', (message: BrokerMessage) => this.handle(guest, message));
+        guest.send({ type: 'devices', data: this.client.devices.map(snapshotOf) });
+    }
+
+    private broadcast(type: string, data: object) {
+        this.guests.forEach(guest => guest.send({ type, data }));
+    }
+
+    private handle(guest: BrokerChannel, message: BrokerMessage) {
+        logDebug(`broker request: ${message.type}`);
+
+        let data = message.data || {};
+        switch (message.type) {
+            case 'device_request':
+                return guest.reply(message, this.deviceOf(data.deviceId).then(device => device.request(data.type, data.data, data.options)));
+            case 'project_command':
+                return guest.reply(message, this.sendProjectCommand(data.folder, data.command, data.deviceIds));
+            case 'connect':
+                return guest.reply(message, this.client.connectTo(data.host, data.port, data.type, data.adbDeviceId).then(() => null));
+            case 'connect_adb':
+                return guest.reply(message, this.hooks.connectToAdb(data.adbDeviceId).then(() => null));
+            case 'disconnect':
+                return this.deviceOf(data.deviceId).then(device => device.disconnect(), () => null);
+            case 'listener':
+                return guest.reply(message, Promise.resolve(this.hooks.listener()));
+            case 'issue_code':
+                return guest.reply(message, Promise.resolve(this.hooks.issueOneTimeCode()));
+            case 'revoke_code':
+                return this.hooks.revokeOneTimeCode(data.code);
+            default:
+                if (message.id !== undefined) {
+                    guest.reply(message, Promise.reject(new Error(`未知请求 ${message.type}`)));
+                }
+        }
+    }
+
+    private deviceOf(deviceId: string): Promise<Device> {
+        let device = this.client.devices.find(o => o.deviceId === deviceId);
+        return device ? Promise.resolve(device) : Promise.reject(new Error(`设备 ${deviceId} 未连接`));
+    }
+
+    /**
+     * Sends the project of a guest window, filtered by its own project.json rather than by the project opened here.
+     */
+    private sendProjectCommand(folder: string, command: ProjectCommands, deviceIds: string[]): Promise<SettledResult[]> {
+        let devices = this.client.devices.filter(device => deviceIds.includes(device.deviceId));
+        let project = new Project(vscode.Uri.file(folder));
+        let fileFilter = project.config ? project.fileFilter.bind(project) : undefined;
+        return this.client.sendProjectCommand(folder, command, devices, { fileFilter }).then((results) => {
+            return results.map<SettledResult>(result => result.status === 'fulfilled'
+                ? { status: 'fulfilled', value: result.value }
+                : { status: 'rejected', reason: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+        }).finally(() => {
+            project.config && project.dispose();
+        });
+    }
+}
+
+/**
+ * Mirrors the devices of the host window and relays operations on them.
+ */
+class BrokerGuest implements DeviceRelay {
+    readonly channel: BrokerChannel;
+    private readonly client: Devices;
+    private readonly remotes = new Map<string, RemoteDevice>();
+
+    constructor(channel: BrokerChannel, client: Devices) {
+        this.channel = channel;
+        this.client = client;
+        channel.on('message', (message: BrokerMessage) => this.onMessage(message));
+    }
+
+    connectTo(host: string, port: number, type: number, adbDeviceId?: string): Promise<void> {
+        return this.channel.request('connect', { host, port, type, adbDeviceId });
+    }
+
+    sendProjectCommand(folder: string, command: ProjectCommands, deviceIds: string[]): Promise<PromiseSettledResult<AckData>[]> {
+        return this.channel.request('project_command', { folder, command, deviceIds }, PROJECT_REQUEST_TIMEOUT).then((results: SettledResult[]) => {
+            return results.map<PromiseSettledResult<AckData>>(result => result.status === 'fulfilled'
+                ? { status: 'fulfilled', value: result.value }
+                : { status: 'rejected', reason: new Error(result.reason) });
+        });
+    }
+
+    /**
+     * Detaches the mirrored devices and returns their last known state.
+     */
+    dispose(): DeviceSnapshot[] {
+        let snapshots: DeviceSnapshot[] = [];
+        this.remotes.forEach((remote) => {
+            if (this.client.devices.includes(remote)) {
+                snapshots.push(snapshotOf(remote));
+                remote.setState('closed');
+                this.client.detachDevice(remote);
+            }
+        });
+        this.remotes.clear();
+        return snapshots;
+    }
+
+    private onMessage(message: BrokerMessage) {
+        let data = message.data;
+        switch (message.type) {
+            case 'devices':
+                (data as DeviceSnapshot[]).forEach(snapshot => this.attach(snapshot));
+                break;
+            case 'new_device':
+                this.attach(data.device);
+                break;
+            case 'detach_device':
+                this.withRemote(data.device.deviceId, (remote) => {
+                    remote.update(data.device);
+                    remote.setState(data.device.state);
+                    this.client.detachDevice(remote);
+                });
+                break;
+            case 'device_state':
+                this.withRemote(data.deviceId, remote => remote.setState(data.state));
+                break;
+            case 'reconnect_failed':
+                this.withRemote(data.device.deviceId, remote => this.client.emit('reconnect_failed', remote));
+                break;
+            case 'log':
+                this.withRemote(data.deviceId, remote => remote.emit('data:log', { log: data.log }));
+                break;
+            default:
+                logDebug(`ignored broker message: ${message.type}`);
+        }
+    }
+
+    private attach(snapshot: DeviceSnapshot) {
+        let remote = this.remotes.get(snapshot.deviceId);
+        if (remote) {
+            remote.update(snapshot);
+            remote.setState(snapshot.state);
+        } else {
+            remote = new RemoteDevice(this.channel, snapshot);
+            this.remotes.set(snapshot.deviceId, remote);
+        }
+        if (!this.client.devices.includes(remote)) {
+            this.client.attachDevice(remote, snapshot.connectionType);
+        }
+    }
+
+    private withRemote(deviceId: string, action: (remote: RemoteDevice) => void) {
+        let remote = this.remotes.get(deviceId);
+        if (remote) {
+            action(remote);
+        }
+    }
+}
+
+/**
+ * Lets several VSCode windows share the device connections.
+ *
+ * The first window becomes the host, owning the listener and the device sockets, and the others join it as guests
+ * over a local IPC channel. When the host window closes, the guests race to become the new host, which reconnects
+ * to the AutoJs6 servers known before.
+ *
+ * Emits "role" with the new role, and for a new host the devices left by the former one.
+ */
+export class Broker extends events.EventEmitter {
+    private readonly client: Devices;
+    private readonly hooks: BrokerHooks;
+    private readonly path: string;
+    private host: BrokerHost = null;
+    private guest: BrokerGuest = null;
+    private orphans: DeviceSnapshot[] = [];
+    private isDisposed = false;
+
+    role: BrokerRole = null;
+
+    constructor(client: Devices, hooks: BrokerHooks, path: string = BROKER_PATH) {
+        super();
+        this.client = client;
+        this.hooks = hooks;
+        this.path = path;
+    }
+
+    async start(): Promise<BrokerRole> {
+        logDebug('## [m] Broker.start');
+
+        for (let attempt = 0; attempt < MAX_START_ATTEMPTS && !this.isDisposed; attempt += 1) {
+            try {
+                await this.join();
+                return this.role;
+            } catch (e) {
+                logDebug(`no broker host to join: ${e.message}`);
+                if (e.code === 'ECONNREFUSED' && process.platform !== 'win32') {
+                    // Socket file left over by a window which has not shut down cleanly
+                    try {
+                        fs.unlinkSync(this.path);
+                    } catch (e) {
+                        logDebug('failed to remove stale broker socket: ', e);
+                    }
+                }
+            }
+            try {
+                await this.serve();
+                return this.role;
+            } catch (e) {
+                if (e.code !== 'EADDRINUSE') {
+                    logDebug('failed to serve as broker host: ', e);
+                    break;
+                }
+                // Another window has become the host in the meantime.
+            }
+        }
+        if (!this.isDisposed) {
+            logDebug('running without broker');
+            this.setRole('host');
+        }
+        return this.role;
+    }
+
+    /**
+     * Port and pairing code of the listener accepting AutoJs6 in client mode, which is owned by the host window.
+     */
+    listener(): Promise<ListenerInfo> {
+        if (this.guest !== null) {
+            return this.guest.channel.request('listener');
+        }
+        return Promise.resolve(this.hooks.listener());
+    }
+
+    issueOneTimeCode(): Promise<string> {
+        if (this.guest !== null) {
+            return this.guest.channel.request('issue_code');
+        }
+        return Promise.resolve(this.hooks.issueOneTimeCode());
+    }
+
+    connectToAdb(adbDeviceId: string): Promise<void> {
+        if (this.guest !== null) {
+            return this.guest.channel.request('connect_adb', { adbDeviceId });
+        }
+        return this.hooks.connectToAdb(adbDeviceId);
+    }
+
+    revokeOneTimeCode(code: string) {
+        if (this.guest !== null) {
+            this.guest.channel.send({ type: 'revoke_code', data: { code } });
+        } else {
+            this.hooks.revokeOneTimeCode(code);
+        }
+    }
+
+    /**
+     * A host window has to be disposed before it disconnects its devices,
+     * so that its guests take them over rather than seeing them detached.
+     */
+    dispose() {
+        this.isDisposed = true;
+        if (this.host !== null) {
+            this.host.dispose();
+            this.host = null;
+        }
+        if (this.guest !== null) {
+            this.guest.channel.close();
+        }
+    }
+
+    private join(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let socket = net.connect(this.path);
+            socket.once('error', reject);
+            socket.once('connect', () => {
+                socket.removeListener('error', reject);
+                let channel = new BrokerChannel(socket);
+                this.guest = new BrokerGuest(channel, this.client);
+                this.client.relay = this.guest;
+                channel.on('close', () => this.onHostLost());
+                this.setRole('guest');
+                resolve();
+            });
+        });
+    }
+
+    private serve(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let server = net.createServer();
+            server.once('error', reject);
+            server.listen(this.path, () => {
+                server.removeListener('error', reject);
+                server.on('error', e => logDebug('broker server error: ', e));
+                this.host = new BrokerHost(server, this.client, this.hooks);
+                this.setRole('host');
+                resolve();
+            });
+        });
+    }
+
+    private onHostLost() {
+        logDebug('## [m] Broker.onHostLost');
+
+        this.orphans = this.guest.dispose();
+        this.guest = null;
+        this.client.relay = null;
+        if (this.isDisposed) {
+            return;
+        }
+        // Spreads the guests out, so that one of them wins the race to become the host.
+        setTimeout(() => this.start(), Math.random() * HANDOVER_MAX_DELAY);
+    }
+
+    private setRole(role: BrokerRole) {
+        logDebug(`broker role: ${role}`);
+        this.role = role;
+        this.emit('role', role, role === 'host' ? this.orphans.splice(0) : []);
+    }
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as selfsigned from 'selfsigned';
+
+import { Memento } from 'vscode';
+import { logDebug } from './extension';
+
+const KEY_FILE_NAME = 'autojs6-tls-key.pem';
+const CERT_FILE_NAME = 'autojs6-tls-cert.pem';
+const KEY_PINS = 'autojs6.tls.pins';
+
+const CERTIFICATE_VALIDITY_DAYS = 3650;
+
+export interface Certificate {
+    key: string;
+    cert: string;
+    fingerprint: string;
+}
+
+export interface CertificatePin {
+    deviceId: string;
+    deviceName: string;
+    fingerprint: string;
+    pinnedAt: number;
+}
+
+/**
+ * Loads the self-signed certificate of the extension, generating it on first use.
+ */
+export function loadOrCreateCertificate(storageDir: string): Promise<Certificate> {
+    let keyPath = path.join(storageDir, KEY_FILE_NAME);
+    let certPath = path.join(storageDir, CERT_FILE_NAME);
+
+    if (fs.existsSync(keyPath) && fs.existsSync(certPath)) {
+        let key = fs.readFileSync(keyPath, 'utf8');
+        let cert = fs.readFileSync(certPath, 'utf8');
+        return Promise.resolve({ key, cert, fingerprint: fingerprintOfPem(cert) });
+    }
+
+    logDebug('generating self-signed certificate');
+
+    return new Promise((resolve, reject) => {
+        selfsigned.generate([ { name: 'commonName', value: 'AutoJs6 VSCode Extension' } ], {
+            days: CERTIFICATE_VALIDITY_DAYS,
+            keySize: 2048,
+            algorithm: 'sha256',
+        }, (err, result) => {
+            if (err) {
+                return reject(err);
+            }
+            fs.mkdirSync(storageDir, { recursive: true });
+            fs.writeFileSync(keyPath, result.private, { encoding: 'utf8', mode: 0o600 });
+            fs.writeFileSync(certPath, result.cert, 'utf8');
+            resolve({ key: result.private, cert: result.cert, fingerprint: fingerprintOfPem(result.cert) });
+        });
+    });
+}
+
+export function fingerprintOf(der: Buffer): string {
+    return crypto.createHash('sha256').update(der).digest('hex').toUpperCase().match(/../g).join(':');
+}
+
+function fingerprintOfPem(pem: string): string {
+    let base64 = pem.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+    return fingerprintOf(Buffer.from(base64, 'base64'));
+}
+
+/**
+ * Certificate fingerprints of AutoJs6 servers, recorded on first connection and enforced afterwards.
+ */
+export class CertificatePins {
+    private readonly state: Memento;
+
+    constructor(state: Memento) {
+        this.state = state;
+    }
+
+    get pins(): CertificatePin[] {
+        return this.state.get<CertificatePin[]>(KEY_PINS, []);
+    }
+
+    /**
+     * Whether the device has presented a certificate before, so it must not fall back on plain text.
+     */
+    isPinned(deviceId: string): boolean {
+        return this.pins.some(o => o.deviceId === deviceId);
+    }
+
+    /**
+     * Returns false if the device presents a certificate other than the pinned one.
+     */
+    verify(deviceId: string, deviceName: string, fingerprint: string): boolean {
+        let pin = this.pins.find(o => o.deviceId === deviceId);
+        if (pin) {
+            return pin.fingerprint === fingerprint;
+        }
+        logDebug(`pinning certificate of ${deviceName}: ${fingerprint}`);
+        this.state.update(KEY_PINS, this.pins.concat({ deviceId, deviceName, fingerprint, pinnedAt: Date.now() }));
+        return true;
+    }
+
+    forget(deviceId: string) {
+        return this.state.update(KEY_PINS, this.pins.filter(o => o.deviceId !== deviceId));
+    }
+}
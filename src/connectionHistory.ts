@@ -0,0 +1,132 @@
+import { Memento } from 'vscode';
+
+import { logDebug } from './extension';
+
+const KEY_HISTORY = 'autojs6.connectionHistory';
+
+/**
+ * Records of the form "[ 记录 ] - 192.168.1.5|1700000000" kept by former versions.
+ */
+const KEY_LEGACY_RECORDS = 'autojs6.devices';
+
+export type ConnectionTransport = 'lan' | 'adb';
+
+export interface ConnectionRecord {
+    transport: ConnectionTransport;
+    host: string;
+    port: number;
+    adbSerial: string;
+    deviceId: string;
+    deviceName: string;
+    /**
+     * Name given by the user, shown instead of the device name.
+     */
+    label: string;
+    lastConnected: number;
+    connectCount: number;
+    pinned: boolean;
+}
+
+export type ConnectionEntry = Pick<ConnectionRecord, 'transport' | 'host' | 'port' | 'adbSerial' | 'deviceId' | 'deviceName'>;
+
+/**
+ * Connections established so far, shared by all workspaces.
+ * LAN records are identified by host and port, ADB records by the serial of the device.
+ */
+export class ConnectionHistory {
+    private readonly state: Memento;
+
+    constructor(state: Memento) {
+        this.state = state;
+    }
+
+    static keyOf(record: Pick<ConnectionRecord, 'transport' | 'host' | 'port' | 'adbSerial'>) {
+        return record.transport === 'adb' ? `adb:${record.adbSerial}` : `lan:${record.host}:${record.port}`;
+    }
+
+    /**
+     * Pinned records first, then the most recently connected ones.
+     */
+    get records(): ConnectionRecord[] {
+        return this.state.get<ConnectionRecord[]>(KEY_HISTORY, []).slice().sort((a, b) => {
+            return Number(b.pinned) - Number(a.pinned) || b.lastConnected - a.lastConnected;
+        });
+    }
+
+    find(key: string): ConnectionRecord {
+        return this.records.find(o => ConnectionHistory.keyOf(o) === key) || null;
+    }
+
+    add(entry: ConnectionEntry) {
+        let key = ConnectionHistory.keyOf(entry);
+        let existing = this.find(key);
+        let record: ConnectionRecord = {
+            ...entry,
+            label: existing ? existing.label : null,
+            lastConnected: Date.now(),
+            connectCount: existing ? existing.connectCount + 1 : 1,
+            pinned: existing ? existing.pinned : false,
+        };
+        return this.save(this.records.filter(o => ConnectionHistory.keyOf(o) !== key).concat(record));
+    }
+
+    rename(key: string, label: string) {
+        return this.modify(key, { label: label || null });
+    }
+
+    setPinned(key: string, pinned: boolean) {
+        return this.modify(key, { pinned });
+    }
+
+    remove(key: string) {
+        return this.save(this.records.filter(o => ConnectionHistory.keyOf(o) !== key));
+    }
+
+    /**
+     * Removes all records of the transport except the pinned ones, resolving with the number of removed records.
+     */
+    clear(transport: ConnectionTransport): Thenable<number> {
+        let records = this.records;
+        let kept = records.filter(o => o.transport !== transport || o.pinned);
+        return this.save(kept).then(() => records.length - kept.length);
+    }
+
+    /**
+     * Converts the legacy "ip|timestamp" strings, which are removed afterwards.
+     */
+    migrate(defaultPort: number) {
+        let legacy = this.state.get<string[]>(KEY_LEGACY_RECORDS);
+        if (!Array.isArray(legacy)) {
+            return Promise.resolve();
+        }
+        let records = this.records;
+        legacy.forEach((data) => {
+            let [ host, ts ] = String(data).replace(/^\[ [\u4e00-\u9fff]+ ] - /, '').split('|');
+            let record: ConnectionRecord = {
+                transport: 'lan',
+                host: host.trim(),
+                port: defaultPort,
+                adbSerial: null,
+                deviceId: null,
+                deviceName: null,
+                label: null,
+                lastConnected: /^\d+$/.test(ts) ? Number(ts) : 0,
+                connectCount: 1,
+                pinned: false,
+            };
+            if (record.host && !records.some(o => ConnectionHistory.keyOf(o) === ConnectionHistory.keyOf(record))) {
+                records.push(record);
+            }
+        });
+        logDebug(`migrated ${legacy.length} legacy connection records`);
+        return this.save(records).then(() => this.state.update(KEY_LEGACY_RECORDS, undefined));
+    }
+
+    private modify(key: string, changes: Partial<ConnectionRecord>) {
+        return this.save(this.records.map(o => ConnectionHistory.keyOf(o) === key ? { ...o, ...changes } : o));
+    }
+
+    private save(records: ConnectionRecord[]) {
+        return this.state.update(KEY_HISTORY, records);
+    }
+}
@@ -1,12 +1,22 @@
 import * as net from 'net';
+import * as tls from 'tls';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Server, Socket } from 'net';
+import { AddressInfo, Server, Socket } from 'net';
 import * as events from 'events';
 import * as vscode from 'vscode';
 import * as project from './project';
-import { Project, ProjectObserver } from './project';
-import { buffToString } from './util';
+import { DiffResult, Project, ProjectObserver } from './project';
+import {
+    AckData, Capability, CapabilityError, ChecksumMismatchError, COMMAND_CAPABILITIES, CompressionMode, decodeJsonMessage, decompress,
+    encodeBinaryBytesFrame, encodeBinaryJsonFrame, encodeBytesFrame, encodeJsonFrame, FrameDecoder, LEGACY_PROTOCOL_VERSION, Message,
+    negotiateCapabilities, negotiateCompression, PendingRequests, PROTOCOL_VERSION, ProtocolError, RequestOptions, TYPE_JSON_COMPRESSED,
+    verifyChecksum,
+} from './protocol';
+import { ByteTransfer, TransferOptions } from './transfer';
+import { FileFilter } from './diff';
+import { fingerprintOf } from './certificate';
+import { formatHostPort, normalizeAddress } from './util';
 import { logDebug } from './extension';
 import { CONNECTION_TYPE_CLIENT_LAN, CONNECTION_TYPE_SERVER_ADB, CONNECTION_TYPE_SERVER_LAN, Extension, ProjectCommands, connectedServerAdb, connectedServerLan } from './extension';
 
@@ -16,25 +26,64 @@ let projectPackage = JSON.parse(packageJson);
 export const REQUIRED_AUTOJS6_VERSION_NAME = projectPackage['requiredClientVersionName'];
 export const REQUIRED_AUTOJS6_VERSION_CODE = parseInt(projectPackage['requiredClientVersionCode']) || -1;
 
-const SERVER_HEADER_SIZE = 16;
-const CLIENT_HEADER_SIZE = 8;
-
-const TYPE_JSON = 1;
-const TYPE_BYTES = 2;
-
-const LISTENING_PORT = 6347;
-const CLIENT_PORT = 7347;
-const CLIENT_ADB_SERVER_PORT = 20347;
+export const LISTENING_PORT = 6347;
+export const CLIENT_PORT = 7347;
+export const CLIENT_ADB_SERVER_PORT = 20347;
 export const HTTP_SERVER_PORT = 10347;
 const HANDSHAKE_TIMEOUT = 5e3;
+const TLS_HANDSHAKE_TIMEOUT = 5e3;
+const PROJECT_COMMAND_TIMEOUT = 30e3;
+const PROJECT_CHECKSUM_RETRIES = 2;
+const HEARTBEAT_INTERVAL = 10e3;
+const HEARTBEAT_TIMEOUT = 5e3;
+const HEARTBEAT_MAX_MISSES = 3;
+const RECONNECT_BASE_DELAY = 1e3;
+const RECONNECT_MAX_DELAY = 30e3;
+const RECONNECT_MAX_ATTEMPTS = 8;
+
+export type DeviceState = 'connecting' | 'attached' | 'stale' | 'reconnecting' | 'closed';
+
+export interface ConnectionTarget {
+    host: string;
+    port: number;
+}
+
+export interface TlsContext {
+    key: string;
+    cert: string;
+    fingerprint: string;
+    /**
+     * Checks the certificate fingerprint presented by an AutoJs6 server against the pinned one.
+     */
+    verifyPeer: (deviceId: string, deviceName: string, fingerprint: string) => boolean;
+    /**
+     * Whether a certificate has been pinned for the device, which is then refused in plain text.
+     */
+    isPinned: (deviceId: string) => boolean;
+}
+
+export interface DeviceTls extends TlsContext {
+    /**
+     * "server" for connections accepted by the listener, "client" for connections opened by VSCode.
+     */
+    role: 'server' | 'client';
+}
 
 export class Device extends events.EventEmitter {
 
-    private versionCode = 0;
+    protected versionCode = 0;
     private id = 1;
-    private name: string;
-    private version: string;
+    protected name: string;
+    protected version: string;
     private isAttached = false;
+    private hasBeenAttached = false;
+    private lastSeen = 0;
+    private missedHeartbeats = 0;
+    private handshakeTimer: NodeJS.Timeout = null;
+    private heartbeatTimer: NodeJS.Timeout = null;
+    private readonly pendingRequests = new PendingRequests();
+    private transferQueue: Promise<any> = Promise.resolve();
+    private detachSocket: () => void = null;
 
     connection: Socket;
     deviceId: string;
@@ -42,6 +91,17 @@ export class Device extends events.EventEmitter {
     adbDeviceId: string = null;
     host: string = null;
     isNormallyClosed: boolean = false;
+    state: DeviceState = 'connecting';
+    connectionType: number = null;
+    target: ConnectionTarget = null;
+    reconnectAttempts = 0;
+    reconnectTimer: NodeJS.Timeout = null;
+    protocolVersion = LEGACY_PROTOCOL_VERSION;
+    capabilities: Set<Capability> = new Set();
+    compression: CompressionMode = null;
+    authenticator: HelloAuthenticator = null;
+    tls: DeviceTls = null;
+    alias: string = null;
 
     static defaultClientPort: number = CLIENT_PORT;
     static defaultAdbServerPort: number = CLIENT_ADB_SERVER_PORT;
@@ -49,178 +109,438 @@ export class Device extends events.EventEmitter {
     constructor(connection: Socket) {
         super();
 
-        this.connection = connection;
-        this.read(connection);
-
         this.on('data:hello', (data: HelloData) => {
             logDebug('on server hello: ', data);
 
             this.isAttached = true;
+            clearTimeout(this.handshakeTimer);
             this.name = data.device_name || 'unknown device';
             this.version = data.app_version;
             this.versionCode = parseInt(data.app_version_code);
-            if (this.versionCode < REQUIRED_AUTOJS6_VERSION_CODE) {
+            this.protocolVersion = Math.min(parseInt(data.protocol_version) || LEGACY_PROTOCOL_VERSION, PROTOCOL_VERSION);
+            this.capabilities = negotiateCapabilities(data.capabilities);
+            if (!this.hasCapability('binary_frames')) {
+                // Compressed payloads are binary and cannot be described by legacy frame lengths.
+                this.capabilities.delete('compression');
+            }
+            this.compression = this.hasCapability('compression') ? negotiateCompression(data.compression) : null;
+            if (this.compression === null) {
+                this.capabilities.delete('compression');
+            }
+            if (this.tls === null) {
+                this.capabilities.delete('tls');
+            }
+            logDebug(`negotiated protocol: v${this.protocolVersion}, capabilities: [ ${Array.from(this.capabilities).join(', ')} ]`);
+            logDebug(`negotiated compression: ${this.compression}`);
+
+            if (this.versionCode < REQUIRED_AUTOJS6_VERSION_CODE && !this.hasBeenAttached) {
                 let releasesUrl = 'https://github.com/SuperMonster003/AutoJs6/releases/';
-                const errMessage = `无法建立连接, 请确认 AutoJs6 版本不低于 ${REQUIRED_AUTOJS6_VERSION_NAME}`;
-                vscode.window.showErrorMessage(errMessage, '查看所有项目版本')
+                const warnMessage = `AutoJs6 版本低于 ${REQUIRED_AUTOJS6_VERSION_NAME}, 已使用兼容模式建立连接, 部分功能可能不可用`;
+                vscode.window.showWarningMessage(warnMessage, '查看所有项目版本')
                     .then(choice => choice && vscode.env.openExternal(vscode.Uri.parse(releasesUrl)));
-                this.sendHello(errMessage);
-                this.connection.destroy();
-                this.connection = null;
-                return;
             }
             this.deviceId = data.device_id;
 
-            this.sendHello();
-            this.emit('attach', this);
+            if (this.tls !== null && !this.hasCapability('tls') && this.tls.isPinned(this.deviceId)) {
+                // Otherwise leaving "tls" out of the capabilities would be enough to get around pinning.
+                let reason = '该设备已记录加密连接证书, 不接受未加密的连接';
+                logDebug(`refused plain text connection of pinned device: ${this}`);
+                vscode.window.showErrorMessage(`设备 ${this} 未提供加密连接, 已拒绝连接. 如设备已重置, 可使用 "撤销设备信任" 命令后重新连接`);
+                this.refuse(reason);
+                return;
+            }
+
+            let pairingToken: string = undefined;
+            if (this.authenticator !== null) {
+                let result = this.authenticator(this, data);
+                if (!result.accepted) {
+                    logDebug(`rejected unpaired device: ${this} (${result.reason})`);
+                    this.refuse(result.reason);
+                    this.emit('reject', result.reason);
+                    return;
+                }
+                pairingToken = result.pairingToken;
+            }
+
+            // The pairing token is sent before the TLS upgrade, like the pairing code and token in the hello of AutoJs6.
+            this.sendHello(undefined, pairingToken);
+
+            if (this.hasCapability('tls')) {
+                this.upgradeToTls().then(() => this.completeHandshake(), (e) => {
+                    logDebug(`TLS handshake failed: ${this}`, e);
+                    vscode.window.showErrorMessage(`与设备 ${this} 建立加密连接失败: ${e.message}`);
+                    // Not worth retrying, the peer would most likely fail the same way again.
+                    this.isNormallyClosed = true;
+                    this.connection?.destroy();
+                });
+            } else {
+                this.completeHandshake();
+            }
+        });
+
+        this.on('data:ack', (data: AckData) => this.pendingRequests.settle(data));
+        this.on('data:result', (data: AckData) => this.pendingRequests.settle(data));
+        this.on('data:pong', (data: AckData) => this.pendingRequests.settle({ status: 'ok', ...data }));
+        this.on('data:ping', (data: { id?: number }) => this.connection && this.sendJson({ type: 'pong', data: { id: data?.id } }));
+
+        // Devices relayed by the broker have no socket of their own
+        if (connection !== null) {
+            this.bind(connection);
+        }
+    }
+
+    private completeHandshake() {
+        this.hasBeenAttached = true;
+        this.reconnectAttempts = 0;
+        this.setState('attached');
+        if (this.hasCapability('heartbeat')) {
+            this.startHeartbeat();
+        }
+        this.emit('attach', this);
+    }
+
+    /**
+     * Switches the current connection to TLS right after the plain "hello" exchange.
+     */
+    private upgradeToTls(): Promise<void> {
+        logDebug('## [m] Device.upgradeToTls');
+
+        let raw = this.connection;
+        this.detachSocket();
+
+        return new Promise((resolve, reject) => {
+            let secure: tls.TLSSocket;
+            let timer = setTimeout(() => reject(new Error('TLS 握手超时')), TLS_HANDSHAKE_TIMEOUT);
+            let onSecure = () => {
+                clearTimeout(timer);
+                if (this.tls.role === 'client') {
+                    let fingerprint = fingerprintOf(secure.getPeerCertificate(true).raw);
+                    if (!this.tls.verifyPeer(this.deviceId, this.name, fingerprint)) {
+                        return reject(new Error(`证书指纹 ${fingerprint} 与首次配对时记录的不一致`));
+                    }
+                }
+                logDebug(`TLS established: ${this}`);
+                resolve();
+            };
+            if (this.tls.role === 'server') {
+                secure = new tls.TLSSocket(raw, { isServer: true, key: this.tls.key, cert: this.tls.cert });
+                secure.once('secure', onSecure);
+            } else {
+                secure = tls.connect({ socket: raw, rejectUnauthorized: false }, onSecure);
+            }
+            secure.on('error', (e) => {
+                logDebug('tls error: ', e);
+                clearTimeout(timer);
+                reject(e);
+            });
+            this.connection = secure;
+            this.read(secure);
         });
+    }
 
-        setTimeout(() => {
-            if (!this.isAttached) {
+    /**
+     * Replies to "hello" with the reason of refusing the device, then closes the connection once the reply is flushed.
+     */
+    private refuse(reason: string) {
+        let connection = this.connection;
+        this.sendHello(reason);
+        this.isNormallyClosed = true;
+        connection.end(() => connection.destroy());
+    }
+
+    /**
+     * Binds a freshly connected socket, either for the first time or when reconnecting.
+     */
+    bind(connection: Socket) {
+        logDebug('## [m] Device.bind');
+
+        this.connection = connection;
+        this.isAttached = false;
+        this.setState('connecting');
+        this.read(connection);
+
+        clearTimeout(this.handshakeTimer);
+        this.handshakeTimer = setTimeout(() => {
+            if (!this.isAttached && this.connection === connection) {
                 logDebug('Handshake timed out');
-                vscode.window.showErrorMessage('连接建立超时');
+                if (!this.hasBeenAttached) {
+                    vscode.window.showErrorMessage('连接建立超时');
+                }
+                this.emit('handshake_timeout');
                 this.connection.destroy();
                 this.connection = null;
             }
         }, HANDSHAKE_TIMEOUT);
     }
 
-    toString() {
-        return `${this.name}${this.connection ? ` (${this.connectionToString()})` : ''}`;
+    get deviceName() {
+        return this.name;
     }
 
-    sendJson(data: object) {
-        logDebug('## [m] Device.sendUTF8');
+    /**
+     * The user-defined alias if any, otherwise the name reported by AutoJs6.
+     */
+    get displayName() {
+        return this.alias || this.name;
+    }
 
-        let bytes: Buffer = Buffer.from(JSON.stringify(data), 'utf-8');
-        let string = buffToString(bytes);
+    get appVersion() {
+        return this.version;
+    }
 
-        let headerBuffer = Buffer.allocUnsafe(SERVER_HEADER_SIZE);
-        headerBuffer.write(String(string.length), 0);
-        headerBuffer.write(String(TYPE_JSON), SERVER_HEADER_SIZE - 2);
+    setState(state: DeviceState) {
+        if (this.state !== state) {
+            logDebug(`device state: ${this.state} -> ${state} (${this})`);
+            this.state = state;
+            this.emit('state', state);
+        }
+    }
 
-        this.connection.write(headerBuffer);
-        this.connection.write(string);
-        // this.connection.write('\r\n');
+    toString() {
+        return `${this.displayName}${this.connection ? ` (${this.connectionToString()})` : ''}`;
+    }
 
-        logDebug('## Written json ok: ' + string);
-        logDebug('## Written json length: ' + bytes.length);
-        logDebug('## Written json string length: ' + string.length);
+    sendJson(message: Message) {
+        logDebug('## [m] Device.sendJson');
+
+        if (this.hasCapability('binary_frames')) {
+            this.writeFrame(encodeBinaryJsonFrame(message, this.compression));
+        } else {
+            this.writeFrame(encodeJsonFrame(message));
+        }
+
+        logDebug('## Written json ok: ' + JSON.stringify(message));
     }
 
-    sendBytes(bytes: Buffer) {
+    /**
+     * Sends a byte payload and resolves with its transfer id, or null for devices without "binary_frames",
+     * which receive the whole payload as a single legacy frame.
+     */
+    sendBytes(bytes: Buffer, options: TransferOptions = {}): Promise<string> {
         logDebug('## [m] Device.sendBytes');
 
-        let string = bytes.toString('latin1');
+        if (!this.hasCapability('binary_frames')) {
+            this.writeFrame(encodeBytesFrame(bytes));
+            options.onProgress?.(bytes.length, bytes.length);
+            logDebug('## Written bytes length: ' + bytes.length);
+            return Promise.resolve(null);
+        }
+        let run = () => new ByteTransfer(this, bytes, options).run();
+        let promise = this.transferQueue.then(run, run);
+        this.transferQueue = promise.catch(() => null);
+        return promise;
+    }
+
+    writeBytesFrame(bytes: Buffer): Promise<void> {
+        return this.writeFrameAsync(encodeBinaryBytesFrame(bytes, this.compression));
+    }
 
-        let headerBuffer = Buffer.allocUnsafe(SERVER_HEADER_SIZE);
-        headerBuffer.write(String(string.length), 0);
-        headerBuffer.write(String(TYPE_BYTES), SERVER_HEADER_SIZE - 2);
+    waitForAttach(timeout: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let timer = setTimeout(() => {
+                cleanup();
+                reject(new ProtocolError(-1, `设备 ${this} 未能在 ${timeout} ms 内恢复连接`));
+            }, timeout);
+            let onAttach = () => {
+                cleanup();
+                resolve();
+            };
+            let onState = (state: DeviceState) => {
+                if (state === 'closed') {
+                    cleanup();
+                    reject(new ProtocolError(-1, `设备 ${this} 已断开连接`));
+                }
+            };
+            let cleanup = () => {
+                clearTimeout(timer);
+                this.removeListener('attach', onAttach);
+                this.removeListener('state', onState);
+            };
+            this.on('attach', onAttach);
+            this.on('state', onState);
+        });
+    }
 
-        this.connection.write(headerBuffer);
-        this.connection.write(string);
-        // this.connection.write('\r\n');
+    /**
+     * Sends a message with a fresh id and resolves with the matching "ack" or "result" reply.
+     */
+    request(type: string, data: object = {}, options: RequestOptions = {}): Promise<AckData> {
+        logDebug(`## [m] Device.request (${type})`);
 
-        logDebug(bytes);
-        logDebug('## Written bytes ok: ' + string);
-        logDebug('## Written bytes length: ' + bytes.length);
-        logDebug('## Written bytes string length: ' + string.length);
+        if (!this.connection) {
+            return Promise.reject(new ProtocolError(-1, `设备 ${this} 已断开连接`));
+        }
+        if (options.requires && !this.hasCapability(options.requires)) {
+            return Promise.reject(new CapabilityError(this.toString(), options.requires));
+        }
+        let id = this.id++;
+        if (!this.hasCapability('ack')) {
+            this.sendJson({ ...options.message, id: id, type: type, data: data });
+            return Promise.resolve({ id: id, status: 'ok', unconfirmed: true });
+        }
+        let promise = this.pendingRequests.add(id, options.timeout);
+        this.sendJson({ ...options.message, id: id, type: type, data: data });
+        return promise;
+    }
+
+    hasCapability(capability: Capability) {
+        return this.capabilities.has(capability);
     }
 
-    sendHello(err?: string) {
+    sendHello(err?: string, pairingToken?: string) {
         logDebug('## [m] Device.sendHello');
 
         let id = this.id++;
-        let data = { extensionVersion: projectPackage.version };
+        let data = {
+            extensionVersion: projectPackage.version,
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: Array.from(this.capabilities),
+            compression: this.compression,
+        };
         if (err) {
             data['errorMessage'] = err;
         }
-        this.sendJson({ id: id, type: 'hello', data: data });
+        if (pairingToken) {
+            data['pairingToken'] = pairingToken;
+        }
+        if (this.hasCapability('tls')) {
+            data['certificateFingerprint'] = this.tls.fingerprint;
+        }
+        // The reply is framed before the peer has learnt the negotiated capabilities.
+        this.writeFrame(encodeJsonFrame({ id: id, type: 'hello', data: data }));
         return id;
     }
 
-    sendCommand(command, data = {}) {
+    sendCommand(command: string, data = {}, timeout?: number) {
         logDebug('## [m] Device.sendCommand');
 
-        let id = this.id++;
-        this.sendJson({ id: id, type: 'command', data: Object.assign(Object(data), { command }) });
-        return id;
+        return this.request('command', Object.assign(Object(data), { command }), {
+            timeout: timeout,
+            requires: COMMAND_CAPABILITIES[command],
+        });
+    }
+
+    private writeFrame(buffers: Buffer[]) {
+        buffers.forEach(buffer => this.connection.write(buffer));
+    }
+
+    /**
+     * Writes a frame and resolves once the socket buffer has drained, so large payloads respect backpressure.
+     */
+    private writeFrameAsync(buffers: Buffer[]): Promise<void> {
+        let connection = this.connection;
+        if (!connection) {
+            return Promise.reject(new ProtocolError(-1, `设备 ${this} 已断开连接`));
+        }
+        return new Promise((resolve, reject) => {
+            let isFlushed = buffers.map(buffer => connection.write(buffer)).every(Boolean);
+            if (isFlushed) {
+                return resolve();
+            }
+            let onDrain = () => {
+                cleanup();
+                resolve();
+            };
+            let onClose = () => {
+                cleanup();
+                reject(new ProtocolError(-1, `设备 ${this} 已断开连接`));
+            };
+            let cleanup = () => {
+                connection.removeListener('drain', onDrain);
+                connection.removeListener('close', onClose);
+            };
+            connection.once('drain', onDrain);
+            connection.once('close', onClose);
+        });
     }
 
     disconnect() {
-        this.connection.destroy();
         this.isNormallyClosed = true;
+        clearTimeout(this.reconnectTimer);
+        if (this.connection) {
+            this.connection.destroy();
+        } else {
+            this.setState('closed');
+        }
+    }
+
+    private startHeartbeat() {
+        this.stopHeartbeat();
+        this.markAlive();
+        this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL);
+    }
+
+    private stopHeartbeat() {
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = null;
+    }
+
+    private heartbeat() {
+        if (!this.connection) {
+            return this.stopHeartbeat();
+        }
+        if (Date.now() - this.lastSeen < HEARTBEAT_INTERVAL) {
+            // Any inbound traffic already proves the connection is alive.
+            return;
+        }
+        let connection = this.connection;
+        this.ping(HEARTBEAT_TIMEOUT).then(() => this.markAlive(), (e) => {
+            if (this.connection !== connection) {
+                return;
+            }
+            this.missedHeartbeats += 1;
+            logDebug(`heartbeat missed (${this.missedHeartbeats}/${HEARTBEAT_MAX_MISSES}): ${e.message}`);
+            this.setState('stale');
+            if (this.missedHeartbeats >= HEARTBEAT_MAX_MISSES) {
+                logDebug(`connection is considered dead: ${this}`);
+                connection.destroy();
+            }
+        });
+    }
+
+    /**
+     * Resolves once the device answers with "pong", which "heartbeat" implies even if "ack" has not been negotiated.
+     */
+    private ping(timeout: number): Promise<AckData> {
+        let id = this.id++;
+        let promise = this.pendingRequests.add(id, timeout);
+        this.sendJson({ id: id, type: 'ping', data: {} });
+        return promise;
+    }
+
+    private markAlive() {
+        this.lastSeen = Date.now();
+        this.missedHeartbeats = 0;
+        if (this.state === 'stale') {
+            this.setState('attached');
+        }
     }
 
     connectionToString() {
-        let remoteAddress = this.connection.remoteAddress?.replace(/.*?:?((\d+\.){3}\d+$)/, '$1') || 'Unknown';
-        return remoteAddress == '127.0.0.1' ? `${remoteAddress}:${this.connection.remotePort}` : remoteAddress;
+        let remoteAddress = normalizeAddress(this.connection.remoteAddress) || 'Unknown';
+        return remoteAddress == '127.0.0.1' || remoteAddress == '::1'
+            ? formatHostPort(remoteAddress, this.connection.remotePort)
+            : remoteAddress;
     }
 
     read(socket: Socket) {
         logDebug('## Device.read');
 
-        let DEFAULT_DATA_LENGTH = -1;
-        let DEFAULT_DATA_TYPE = -1;
-
-        let _ = {
-            isLastDataComplete: true,
-            jointData: <Buffer>Buffer.allocUnsafe(0),
-            parsedDataType: DEFAULT_DATA_TYPE,
-            onData(chunk: Buffer, parser: (dataType: number, data: Buffer) => void) {
-                let offset = 0;
-                let expectedChunkLen = ( /* @IIFE */ () => {
-                    if (this.isLastDataComplete) {
-                        this.parseHeader(chunk);
-                        offset += CLIENT_HEADER_SIZE;
-                        return CLIENT_HEADER_SIZE + this.parsedDataLength;
-                    }
-                    return this.parsedDataLength - this.getJointDataLength();
-                })();
+        let decoder = new FrameDecoder(this.onData.bind(this));
 
-                this.joinData(chunk.slice(offset, expectedChunkLen));
-
-                if (chunk.length >= expectedChunkLen) {
-                    this.isLastDataComplete = true;
-                    this.parseFullData(parser);
-                    this.reset();
-
-                    if (chunk.length > expectedChunkLen) {
-                        let remaining = chunk.slice(expectedChunkLen);
-                        logDebug(`remaining len: ${remaining.length}`);
-                        this.onData(remaining, parser);
-                    }
-                } else {
-                    this.isLastDataComplete = false;
-                }
-            },
-            getJointDataLength() {
-                return this.jointData.length;
-            },
-            joinData(data: Buffer): void {
-                logDebug(`length of data to be joint: ${data.length}`);
-                this.jointData = Buffer.concat([ this.jointData, data ]);
-            },
-            parseHeader(chunk: Buffer) {
-                this.parsedDataLength = chunk.readInt32BE(0);
-                this.parsedDataType = chunk.readInt32BE(4);
-                logDebug(`dataLength: ${this.parsedDataLength}, dataType: ${this.parsedDataType}`);
-            },
-            parseFullData(parser: (dataType: number, data: Buffer) => void) {
-                logDebug(`parsing full data... (len: ${this.jointData.length})`);
-                parser(this.parsedDataType, this.jointData);
-            },
-            reset() {
-                this.jointData = <Buffer>Buffer.allocUnsafe(0);
-                this.parsedDataLength = DEFAULT_DATA_LENGTH;
-                this.parsedDataType = DEFAULT_DATA_TYPE;
-            },
+        this.detachSocket = () => {
+            socket.removeAllListeners('data');
+            socket.removeAllListeners('message');
+            socket.removeAllListeners('close');
         };
 
         socket
             .on('data', (chunk: Buffer) => {
                 logDebug('on data');
-                _.onData(chunk, this.onData.bind(this));
+                if (this.isAttached) {
+                    this.markAlive();
+                }
+                decoder.push(chunk);
             })
             .on('message', (message) => {
                 logDebug('on message');
@@ -239,7 +559,15 @@ export class Device extends events.EventEmitter {
             .on('close', (had_error, description) => {
                 logDebug('on close');
                 logDebug(`closed: {device: ${this}, had_error: ${had_error}, desc: ${description}}`);
+                if (this.connection !== socket && this.connection !== null) {
+                    // A newer socket has been bound in the meantime.
+                    return;
+                }
                 this.connection = null;
+                this.isAttached = false;
+                this.stopHeartbeat();
+                clearTimeout(this.handshakeTimer);
+                this.pendingRequests.rejectAll(`设备 ${this} 已断开连接`);
                 this.emit('disconnect');
             });
     }
@@ -248,6 +576,14 @@ export class Device extends events.EventEmitter {
         logDebug('## Device.onData');
         logDebug(`onData: type = ${dataType}, length = ${data.length}, content = ${data}`);
 
+        if (dataType === TYPE_JSON_COMPRESSED) {
+            try {
+                data = decompress(this.compression || 'deflate', data);
+            } catch (e) {
+                logDebug('failed to decompress data: ', e);
+                return;
+            }
+        }
         this.handleJsonData(data);
     }
 
@@ -256,8 +592,7 @@ export class Device extends events.EventEmitter {
         logDebug('## json data buffer length: ' + data.length);
 
         try {
-            let encoding: BufferEncoding = 'utf-8';
-            let parsed = JSON.parse(data.toString(encoding));
+            let parsed = decodeJsonMessage(data);
             logDebug('json: ', parsed);
             this.emit('message', parsed);
             this.emit(`data:${parsed.type}`, parsed.data);
@@ -267,17 +602,54 @@ export class Device extends events.EventEmitter {
     }
 }
 
+/**
+ * Carries out operations on devices whose connections are owned by another VSCode window.
+ */
+export interface DeviceRelay {
+    connectTo(host: string, port: number, type: number, adbDeviceId?: string): Promise<void>;
+
+    sendProjectCommand(folder: string, command: ProjectCommands, deviceIds: string[]): Promise<PromiseSettledResult<AckData>[]>;
+}
+
 export class Devices extends events.EventEmitter {
 
     devices: Device[];
     project: Project;
 
-    private recentDevice: null;
-    private serverSocket: Server;
+    private recentDevice: Device;
+    private targetIds: string[] = [];
+    private serverSocket: Server = null;
+    private listeningPort: number = null;
+    private readonly reconnecting = new Set<Device>();
     private readonly fileFilter: (relativePath, absPath, stats) => (boolean | any);
 
     isServerSocketNormallyClosed: boolean = false;
 
+    /**
+     * Verifies devices connecting to the listener, i.e. AutoJs6 in client mode.
+     */
+    authenticator: HelloAuthenticator = null;
+
+    /**
+     * Enables TLS for LAN connections with devices offering the "tls" capability.
+     */
+    tls: TlsContext = null;
+
+    /**
+     * Re-establishes the ADB port forwards for a device and resolves with the local port to connect to.
+     */
+    adbPortForwarder: (adbDeviceId: string) => Promise<number> = null;
+
+    /**
+     * Looks up the user-defined alias of a device.
+     */
+    aliasResolver: (deviceId: string) => string = null;
+
+    /**
+     * Set while another window owns the device connections, see broker.ts.
+     */
+    relay: DeviceRelay = null;
+
     constructor() {
         super();
         this.devices = [];
@@ -289,17 +661,44 @@ export class Devices extends events.EventEmitter {
             }
             return this.project.fileFilter(relativePath, absPath, stats);
         };
-        this.serverSocket = net.createServer((socket) => {
-            this.accept(socket);
-        });
         Devices.instance = this;
-        this.serverSocket.listen(LISTENING_PORT, () => {
-            logDebug(`server listening on port ${LISTENING_PORT}`);
-        });
     }
 
     static instance: Devices = null;
 
+    /**
+     * Port actually bound for AutoJs6 in client mode, null if not listening.
+     */
+    get port(): number {
+        return this.listeningPort;
+    }
+
+    /**
+     * Starts accepting AutoJs6 in client mode on the port and resolves with the bound port.
+     * A former listener is only closed once the new one is bound, so a failure keeps it working.
+     */
+    listen(port: number): Promise<number> {
+        logDebug('## [m] Devices.listen');
+
+        return new Promise((resolve, reject) => {
+            let server = net.createServer((socket) => {
+                this.accept(socket);
+            });
+            server.once('error', reject);
+            server.listen(port, () => {
+                server.removeListener('error', reject);
+                server.on('error', e => logDebug('server socket error: ', e));
+                if (this.serverSocket !== null) {
+                    this.serverSocket.close();
+                }
+                this.serverSocket = server;
+                this.listeningPort = (server.address() as AddressInfo).port;
+                logDebug(`server listening on port ${this.listeningPort}`);
+                resolve(this.listeningPort);
+            });
+        });
+    }
+
     accept(socket: Socket) {
         logDebug('## Devices.accept');
 
@@ -307,11 +706,17 @@ export class Devices extends events.EventEmitter {
             logDebug('connect error: ', e);
         });
 
-        new Device(socket).on('attach', (dev) => {
+        let device = new Device(socket);
+        device.authenticator = this.authenticator;
+        device.tls = this.tls && { ...this.tls, role: 'server' };
+        device.on('attach', (dev) => {
             logDebug('## on attach (accept)');
             this.attachDevice(dev, CONNECTION_TYPE_CLIENT_LAN);
             logDebug('## on attach (accept) end');
         });
+        device.on('reject', (reason: string) => {
+            this.emit('reject_device', device, socket.remoteAddress, reason);
+        });
 
         logDebug('## Devices.accept end');
     }
@@ -333,23 +738,69 @@ export class Devices extends events.EventEmitter {
                     return resolve(true);
                 }
             }
+            if (this.relay !== null) {
+                return this.relay.connectTo(host, port, type, adbDeviceId).then(resolve, reject);
+            }
+            this.reconnecting.forEach((device) => {
+                let isSameTarget = type === CONNECTION_TYPE_SERVER_ADB
+                    ? device.adbDeviceId === adbDeviceId
+                    : device.target.host === host;
+                if (isSameTarget) {
+                    logDebug(`cancel reconnecting in favor of a new connection: ${device}`);
+                    this.cancelReconnect(device);
+                }
+            });
 
-            let socket = new net.Socket();
-            socket.connect(port, host, () => {
+            this.openSocket(host, port).then((socket) => {
                 let device = new Device(socket);
+                device.target = { host, port };
+                if (type === CONNECTION_TYPE_SERVER_LAN) {
+                    device.tls = this.tls && { ...this.tls, role: 'client' };
+                }
                 if (typeof adbDeviceId !== 'undefined') {
                     device.adbDeviceId = adbDeviceId;
                 }
-                device.on('attach', () => {
+                // The peer may close the socket or never say hello, e.g. an ADB forward to a device with server mode off.
+                let onAttach = () => {
                     logDebug('## on attach (connectTo)');
+                    cleanup();
                     if (typeof adbDeviceId !== 'undefined') {
                         this.attachDevice(device, CONNECTION_TYPE_SERVER_ADB);
                     } else {
                         this.attachDevice(device, CONNECTION_TYPE_SERVER_LAN);
                     }
                     resolve(device);
-                });
-            });
+                };
+                let onReject = (reason: string) => {
+                    cleanup();
+                    reject(new ProtocolError(-1, `设备 ${device} 已被拒绝: ${reason}`));
+                };
+                let onTimeout = () => {
+                    cleanup();
+                    reject(new ProtocolError(-1, `设备 ${formatHostPort(host, port)} 未能在 ${HANDSHAKE_TIMEOUT} ms 内完成握手`));
+                };
+                let onDisconnect = () => {
+                    cleanup();
+                    reject(new ProtocolError(-1, `设备 ${formatHostPort(host, port)} 在握手完成前断开了连接`));
+                };
+                let cleanup = () => {
+                    device.removeListener('attach', onAttach);
+                    device.removeListener('reject', onReject);
+                    device.removeListener('handshake_timeout', onTimeout);
+                    device.removeListener('disconnect', onDisconnect);
+                };
+                device.on('attach', onAttach);
+                device.on('reject', onReject);
+                device.on('handshake_timeout', onTimeout);
+                device.on('disconnect', onDisconnect);
+            }, reject);
+        });
+    }
+
+    private openSocket(host: string, port: number): Promise<Socket> {
+        return new Promise((resolve, reject) => {
+            let socket = new net.Socket();
+            socket.connect(port, host, () => resolve(socket));
             socket.on('error', (e) => {
                 logDebug('connect error: ', e);
                 reject(e);
@@ -357,43 +808,131 @@ export class Devices extends events.EventEmitter {
         });
     }
 
-    sendProjectCommand(folder, command: ProjectCommands) {
+    private scheduleReconnect(device: Device) {
+        if (device.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+            logDebug(`give up reconnecting after ${device.reconnectAttempts} attempts: ${device}`);
+            this.reconnecting.delete(device);
+            device.setState('closed');
+            this.emit('reconnect_failed', device);
+            return;
+        }
+        let delay = Math.min(RECONNECT_BASE_DELAY * 2 ** device.reconnectAttempts, RECONNECT_MAX_DELAY);
+        device.reconnectAttempts += 1;
+        logDebug(`reconnecting in ${delay} ms (attempt ${device.reconnectAttempts}): ${device}`);
+
+        this.reconnecting.add(device);
+        device.setState('reconnecting');
+        device.reconnectTimer = setTimeout(() => this.reconnect(device), delay);
+    }
+
+    private async reconnect(device: Device) {
+        logDebug('## Devices.reconnect');
+
+        try {
+            if (device.connectionType === CONNECTION_TYPE_SERVER_ADB) {
+                device.target.port = await this.adbPortForwarder(device.adbDeviceId);
+            }
+            let socket = await this.openSocket(device.target.host, device.target.port);
+            if (!this.reconnecting.has(device)) {
+                socket.destroy();
+                return;
+            }
+            device.bind(socket);
+        } catch (e) {
+            logDebug(`reconnect failed: ${device}`, e);
+            if (this.reconnecting.has(device)) {
+                this.scheduleReconnect(device);
+            }
+        }
+    }
+
+    /**
+     * Gives up reconnecting to a device, e.g. when it is disconnected from the devices view.
+     */
+    cancelReconnect(device: Device) {
+        this.reconnecting.delete(device);
+        device.disconnect();
+    }
+
+    private onDeviceDisconnect(device: Device) {
+        logDebug('## Devices.onDeviceDisconnect');
+
+        let canReconnect = !device.isNormallyClosed
+            && device.target !== null
+            && (device.connectionType !== CONNECTION_TYPE_SERVER_ADB || this.adbPortForwarder !== null);
+
+        if (canReconnect) {
+            this.reconnecting.add(device);
+        }
+        device.setState(canReconnect ? 'reconnecting' : 'closed');
+        if (this.devices.includes(device)) {
+            this.detachDevice(device);
+        }
+        if (canReconnect) {
+            this.scheduleReconnect(device);
+        } else {
+            this.reconnecting.delete(device);
+        }
+    }
+
+    sendProjectCommand(folder, command: ProjectCommands, devices: Device[] = this.devices, options: ProjectTransferOptions = {}): Promise<PromiseSettledResult<AckData>[]> {
         logDebug('## Devices.sendProjectCommand');
 
-        this.devices.forEach((device) => {
+        if (this.relay !== null) {
+            return this.relay.sendProjectCommand(folder, command, devices.map(device => device.deviceId));
+        }
+        return Promise.allSettled(devices.map((device) => {
             if (device.projectObserver == null || device.projectObserver.folder != folder) {
-                device.projectObserver = new project.ProjectObserver(folder, this.fileFilter);
+                device.projectObserver = new project.ProjectObserver(folder, options.fileFilter || this.fileFilter);
             }
-            device.projectObserver.diff()
-                .then((result) => {
-                    device.sendBytes(result.buffer);
-                    device.sendJson({
-                        type: 'bytes_command',
-                        md5: result.md5,
-                        data: {
-                            id: folder,
-                            name: folder,
-                            deletedFiles: result.deletedFiles,
-                            override: result.full,
-                            command: command,
-                        },
-                    });
+            let send = (result: DiffResult, attempt: number): Promise<AckData> => {
+                return device.sendBytes(result.buffer, {
+                    token: options.token,
+                    onProgress: (sent, total) => options.onProgress?.(device, sent, total),
+                }).then((transferId) => {
+                    return device.request('bytes_command', {
+                        id: folder,
+                        name: folder,
+                        transfer_id: transferId,
+                        deletedFiles: result.deletedFiles,
+                        override: result.full,
+                        command: command,
+                    }, { message: { md5: result.md5 }, timeout: PROJECT_COMMAND_TIMEOUT });
+                }).then((ack) => {
+                    verifyChecksum(result.md5, ack.result?.md5);
+                    return ack;
+                }).catch((e) => {
+                    if (e instanceof ChecksumMismatchError && attempt < PROJECT_CHECKSUM_RETRIES) {
+                        logDebug(`${e.message}, resending project to ${device} (attempt ${attempt + 1})`);
+                        return send(result, attempt + 1);
+                    }
+                    throw e;
                 });
-        });
-        return this.devices.length > 0;
+            };
+            return device.projectObserver.diff()
+                .then(result => send(result, 0))
+                .catch((e) => {
+                    // The observer has already recorded the files as synced, start over with a full sync next time.
+                    device.projectObserver = null;
+                    throw e;
+                });
+        }));
     }
 
-    sendCommand(command, data = {}) {
+    sendCommand(command: string, data = {}, devices: Device[] = this.devices): Promise<PromiseSettledResult<AckData>[]> {
         logDebug('## Devices.sendCommand');
 
-        this.devices.forEach(device => device.sendCommand(command, data));
+        return Promise.allSettled(devices.map(device => device.sendCommand(command, data)));
     }
 
     disconnect() {
         logDebug('## Devices.disconnect');
 
-        this.devices.forEach(dev => dev.disconnect());
-        this.devices.splice(0);
+        this.reconnecting.forEach(dev => this.cancelReconnect(dev));
+        this.devices.slice().forEach((dev) => {
+            dev.disconnect();
+            this.detachDevice(dev);
+        });
         this.recentDevice = null;
     }
 
@@ -404,17 +943,70 @@ export class Devices extends events.EventEmitter {
             if (this.recentDevice !== null) {
                 return this.recentDevice;
             }
+            let targets = this.targetIds.length > 0 ? this.targetDevices : [];
+            if (targets.length > 0) {
+                return targets[0];
+            }
             return this.devices.length > 0 ? this.devices[this.devices.length - 1] : null;
         }
         return this.devices.find(device => device.deviceId === id);
     }
 
+    /**
+     * Ids of the devices which commands are sent to by default, empty for all attached devices.
+     * Devices are matched by id, so the selection survives reconnection.
+     */
+    get targetDeviceIds(): string[] {
+        return this.targetIds.slice();
+    }
+
+    setTargetDeviceIds(ids: string[]) {
+        this.targetIds = ids.slice();
+        this.emit('target_devices', this.targetDeviceIds);
+    }
+
+    /**
+     * Looks up the aliases of attached devices again, after the user has changed one.
+     */
+    refreshAliases() {
+        this.devices.forEach((device) => {
+            device.alias = this.aliasResolver ? this.aliasResolver(device.deviceId) : null;
+        });
+        this.emit('device_alias');
+    }
+
+    /**
+     * Attached devices among the targets, or all attached devices if no target is selected.
+     */
+    get targetDevices(): Device[] {
+        if (this.targetIds.length === 0) {
+            return this.devices.slice();
+        }
+        return this.devices.filter(device => this.targetIds.includes(device.deviceId));
+    }
+
+    get reconnectingDevices(): Device[] {
+        return Array.from(this.reconnecting);
+    }
+
     attachDevice(device: Device, type: number) {
         logDebug('## Devices.attachDevice');
         logDebug('attaching device: ' + device);
 
-        this.emit('new_device', device, type);
-        this.devices.push(device);
+        let isReattached = device.connectionType !== null;
+        device.connectionType = type;
+        device.alias = this.aliasResolver ? this.aliasResolver(device.deviceId) : null;
+        this.reconnecting.delete(device);
+
+        if (!this.devices.includes(device)) {
+            this.devices.push(device);
+        }
+        this.emit('new_device', device, type, isReattached);
+
+        if (isReattached) {
+            logDebug('## Devices.attachDevice end (reattached)');
+            return;
+        }
 
         device.on('data:log', (info: LogData) => {
             logDebug('## on data:log');
@@ -433,15 +1025,24 @@ export class Devices extends events.EventEmitter {
             vscode.window.showInformationMessage(`执行接收到的指令 "${cmd}"`);
             vscode.commands.executeCommand(`extension.${cmd}`);
         });
-        device.on('disconnect', this.detachDevice.bind(this, device));
+        device.on('state', (state: DeviceState) => this.emit('device_state', device, state));
+        device.on('disconnect', this.onDeviceDisconnect.bind(this, device));
+        if (device.target !== null) {
+            // Devices we connected to say hello again after reconnecting, see reconnect()
+            device.on('attach', () => this.attachDevice(device, device.connectionType));
+        }
 
         logDebug('## Devices.attachDevice end');
     }
 
-    detachDevice(device) {
+    detachDevice(device: Device) {
         logDebug('## Devices.detachDevice');
 
-        this.devices.splice(this.devices.indexOf(device), 1);
+        let index = this.devices.indexOf(device);
+        if (index < 0) {
+            return;
+        }
+        this.devices.splice(index, 1);
         if (this.recentDevice === device) {
             this.recentDevice = null;
         }
@@ -456,21 +1057,42 @@ export class Devices extends events.EventEmitter {
 
 export interface DeviceInfo {
     id: string;
+    /**
+     * State reported by "adb devices", e.g. "device", "unauthorized" or "offline".
+     */
+    state: string;
     brand: string;
     model: string;
+    product?: string;
     name: string;
 }
 
+export interface ProjectTransferOptions {
+    token?: vscode.CancellationToken;
+    onProgress?: (device: Device, sent: number, total: number) => void;
+    /**
+     * Filter of the project files, that of the opened project by default.
+     */
+    fileFilter?: FileFilter;
+}
+
 export interface LogData {
     log: string;
     device: Device;
 }
 
-interface HelloData {
+export type HelloAuthenticator = (device: Device, hello: HelloData) => { accepted: boolean, pairingToken?: string, reason?: string };
+
+export interface HelloData {
     device_id: string;
     device_name: string;
     app_version: string;
     app_version_code: string;
+    protocol_version?: string;
+    capabilities?: string[];
+    compression?: string[];
+    pairing_code?: string;
+    pairing_token?: string;
 }
 
 interface CommandParam {
@@ -0,0 +1,59 @@
+import { Memento } from 'vscode';
+
+const KEY_ALIASES = 'autojs6.deviceAliases';
+const KEY_GROUPS = 'autojs6.deviceGroups';
+
+export interface DeviceGroup {
+    name: string;
+    deviceIds: string[];
+}
+
+/**
+ * User-defined device aliases and named device groups, keyed by device id and shared by all workspaces.
+ */
+export class DeviceDirectory {
+    private readonly state: Memento;
+
+    constructor(state: Memento) {
+        this.state = state;
+    }
+
+    get aliases(): { [deviceId: string]: string } {
+        return this.state.get(KEY_ALIASES, {});
+    }
+
+    aliasOf(deviceId: string): string {
+        return this.aliases[deviceId] || null;
+    }
+
+    setAlias(deviceId: string, alias: string) {
+        let aliases = { ...this.aliases };
+        if (alias) {
+            aliases[deviceId] = alias;
+        } else {
+            delete aliases[deviceId];
+        }
+        return this.state.update(KEY_ALIASES, aliases);
+    }
+
+    get groups(): DeviceGroup[] {
+        return this.state.get<DeviceGroup[]>(KEY_GROUPS, []);
+    }
+
+    group(name: string): DeviceGroup {
+        return this.groups.find(o => o.name === name) || null;
+    }
+
+    /**
+     * Creates the group, or replaces its members if a group with the same name exists.
+     */
+    saveGroup(name: string, deviceIds: string[]) {
+        let groups = this.groups.filter(o => o.name !== name);
+        groups.push({ name, deviceIds: Array.from(new Set(deviceIds)) });
+        return this.state.update(KEY_GROUPS, groups);
+    }
+
+    deleteGroup(name: string) {
+        return this.state.update(KEY_GROUPS, this.groups.filter(o => o.name !== name));
+    }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+
+import * as util from './util';
+import { Device, DeviceState, Devices } from './device';
+import { ConnectionRecord } from './connectionHistory';
+import { CONNECTION_TYPE_CLIENT_LAN, CONNECTION_TYPE_SERVER_ADB, CONNECTION_TYPE_SERVER_LAN } from './extension';
+
+export const DEVICES_VIEW_ID = 'autojs6.devices';
+
+const DEVICE_STATE_LABELS: { [state in DeviceState]: string } = {
+    connecting: '正在连接',
+    attached: '已连接',
+    stale: '响应超时',
+    reconnecting: '正在重新连接',
+    closed: '已断开',
+};
+
+function connectionTypeLabel(type: number) {
+    // Not a lookup table, as the constants are still undefined while the extension module is loading.
+    switch (type) {
+        case CONNECTION_TYPE_CLIENT_LAN:
+            return '客户端 | 局域网';
+        case CONNECTION_TYPE_SERVER_LAN:
+            return '服务端 | 局域网';
+        case CONNECTION_TYPE_SERVER_ADB:
+            return '服务端 | ADB';
+        default:
+            return '未知';
+    }
+}
+
+class SectionItem extends TreeItem {
+    readonly section: 'devices' | 'records';
+
+    constructor(section: 'devices' | 'records', label: string, count: number) {
+        super(label, TreeItemCollapsibleState.Expanded);
+        this.section = section;
+        this.id = `section:${section}`;
+        this.description = String(count);
+    }
+}
+
+export class DeviceItem extends TreeItem {
+    readonly device: Device;
+
+    constructor(device: Device) {
+        super(device.displayName, TreeItemCollapsibleState.None);
+        this.device = device;
+        this.contextValue = device.state === 'reconnecting' ? 'reconnectingDevice' : 'device';
+        this.iconPath = new ThemeIcon(DeviceItem.iconOf(device.state));
+        this.description = `${connectionTypeLabel(device.connectionType)} | ${DevicesTreeProvider.addressOf(device)}`;
+        this.tooltip = [
+            device.displayName,
+            ...device.alias ? [ `设备名称: ${device.deviceName}` ] : [],
+            `连接方式: ${connectionTypeLabel(device.connectionType)}`,
+            `地址: ${DevicesTreeProvider.addressOf(device)}`,
+            `AutoJs6 版本: ${device.appVersion || '未知'}`,
+            `状态: ${DEVICE_STATE_LABELS[device.state]}`,
+        ].join('\n');
+    }
+
+    private static iconOf(state: DeviceState) {
+        switch (state) {
+            case 'stale':
+                return 'warning';
+            case 'reconnecting':
+                return 'sync~spin';
+            default:
+                return 'device-mobile';
+        }
+    }
+}
+
+export class RecordItem extends TreeItem {
+    readonly record: ConnectionRecord;
+
+    constructor(record: ConnectionRecord) {
+        super(record.host, TreeItemCollapsibleState.None);
+        this.record = record;
+        this.id = `record:${record.host}:${record.port}`;
+        this.contextValue = 'ipRecord';
+        this.iconPath = new ThemeIcon(record.pinned ? 'pinned' : 'history');
+        this.description = record.label || record.deviceName || undefined;
+        this.tooltip = [
+            util.formatHostPort(record.host, record.port),
+            ...record.deviceName ? [ `设备名称: ${record.deviceName}` ] : [],
+            ...record.lastConnected > 0 ? [ `最近连接: ${util.formatDateTime(record.lastConnected)}` ] : [],
+            `连接次数: ${record.connectCount}`,
+        ].join('\n');
+    }
+}
+
+/**
+ * Sidebar view listing the attached and reconnecting devices and the remembered IP addresses of AutoJs6 servers.
+ */
+export class DevicesTreeProvider implements vscode.TreeDataProvider<TreeItem> {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<TreeItem | undefined>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private readonly client: Devices;
+    private readonly records: () => ConnectionRecord[];
+
+    constructor(client: Devices, records: () => ConnectionRecord[]) {
+        this.client = client;
+        this.records = records;
+        this.client
+            .on('new_device', () => this.refresh())
+            .on('detach_device', () => this.refresh())
+            .on('device_state', () => this.refresh())
+            .on('device_alias', () => this.refresh());
+    }
+
+    static addressOf(device: Device) {
+        if (device.connectionType === CONNECTION_TYPE_SERVER_ADB) {
+            return device.adbDeviceId;
+        }
+        let address = device.connection ? device.connectionToString() : device.host;
+        // 通过主机名连接的服务端设备, 同时显示主机名与解析到的地址
+        if (device.connectionType === CONNECTION_TYPE_SERVER_LAN && device.target && !net.isIP(device.target.host)) {
+            return `${device.target.host} (${address})`;
+        }
+        return address;
+    }
+
+    refresh() {
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    getTreeItem(element: TreeItem): TreeItem {
+        return element;
+    }
+
+    getChildren(element?: TreeItem): TreeItem[] {
+        if (element === undefined) {
+            return [
+                new SectionItem('devices', '已连接设备', this.devices().length),
+                new SectionItem('records', 'IP 地址记录', this.records().length),
+            ];
+        }
+        if (element instanceof SectionItem) {
+            return element.section === 'devices'
+                ? this.devices().map(device => new DeviceItem(device))
+                : this.records().map(record => new RecordItem(record));
+        }
+        return [];
+    }
+
+    /**
+     * Devices are detached while reconnecting, yet they are still listed with their state.
+     */
+    private devices(): Device[] {
+        return this.client.devices.concat(this.client.reconnectingDevices);
+    }
+
+    dispose() {
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
@@ -0,0 +1,161 @@
+import * as dgram from 'dgram';
+import * as events from 'events';
+
+import { NIDetails } from './util';
+import { logDebug } from './extension';
+import { PROTOCOL_VERSION } from './protocol';
+
+/**
+ * UDP port AutoJs6 in server mode listens on for discovery probes.
+ */
+export const DISCOVERY_PORT = 7348;
+
+const PROBE_INTERVAL = 2e3;
+const SERVER_TTL = 10e3;
+
+export interface DiscoveredServer {
+    deviceId: string;
+    deviceName: string;
+    appVersion: string;
+    appVersionCode: number;
+    host: string;
+    port: number;
+    lastSeen: number;
+}
+
+export interface DiscoveryOptions {
+    port?: number;
+    probeInterval?: number;
+    /**
+     * Addresses the probes are sent to, the broadcast addresses of the given interfaces by default.
+     */
+    targets?: () => string[];
+}
+
+/**
+ * Broadcast address of each IPv4 interface, falling back to the limited broadcast address without a netmask.
+ */
+export function broadcastAddresses(interfaces: NIDetails[]): string[] {
+    let addresses = interfaces.filter(ni => ni.ip4 !== undefined).map((ni) => {
+        if (!ni.netmask) {
+            return '255.255.255.255';
+        }
+        let ip = ni.ip4.split('.').map(Number);
+        let mask = ni.netmask.split('.').map(Number);
+        return ip.map((octet, i) => (octet | ~mask[i]) & 0xff).join('.');
+    });
+    return Array.from(new Set(addresses));
+}
+
+/**
+ * Finds AutoJs6 instances in server mode by broadcasting "discover" probes, which they answer with "discover_reply".
+ *
+ * Emits "change" with the current servers whenever one appears, changes or expires.
+ */
+export class Discovery extends events.EventEmitter {
+    private readonly port: number;
+    private readonly probeInterval: number;
+    private readonly targets: () => string[];
+    private readonly found = new Map<string, DiscoveredServer>();
+    private socket: dgram.Socket = null;
+    private timer: NodeJS.Timeout = null;
+
+    constructor(interfaces: () => NIDetails[], options: DiscoveryOptions = {}) {
+        super();
+        this.port = options.port || DISCOVERY_PORT;
+        this.probeInterval = options.probeInterval || PROBE_INTERVAL;
+        this.targets = options.targets || (() => broadcastAddresses(interfaces()));
+    }
+
+    get servers(): DiscoveredServer[] {
+        return Array.from(this.found.values());
+    }
+
+    start(): Promise<void> {
+        logDebug('## [m] Discovery.start');
+
+        if (this.socket !== null) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            let socket = dgram.createSocket('udp4');
+            socket.once('error', reject);
+            socket.on('message', (msg, rinfo) => this.onMessage(msg, rinfo));
+            socket.bind(0, () => {
+                socket.removeListener('error', reject);
+                socket.on('error', e => logDebug('discovery socket error: ', e));
+                socket.setBroadcast(true);
+                this.socket = socket;
+                this.probe();
+                this.timer = setInterval(() => this.probe(), this.probeInterval);
+                resolve();
+            });
+        });
+    }
+
+    stop() {
+        logDebug('## [m] Discovery.stop');
+
+        clearInterval(this.timer);
+        this.timer = null;
+        if (this.socket !== null) {
+            this.socket.close();
+            this.socket = null;
+        }
+        this.found.clear();
+    }
+
+    private probe() {
+        this.expire();
+        let probe = Buffer.from(JSON.stringify({ type: 'discover', data: { protocolVersion: PROTOCOL_VERSION } }), 'utf-8');
+        this.targets().forEach((address) => {
+            this.socket.send(probe, this.port, address, (e) => {
+                e && logDebug(`discovery probe to ${address} failed: ${e.message}`);
+            });
+        });
+    }
+
+    private onMessage(msg: Buffer, rinfo: dgram.RemoteInfo) {
+        let data: any;
+        try {
+            let message = JSON.parse(msg.toString('utf-8'));
+            if (message?.type !== 'discover_reply' || typeof message.data?.device_id !== 'string') {
+                return;
+            }
+            data = message.data;
+        } catch (e) {
+            logDebug(`ignored malformed discovery reply from ${rinfo.address}`);
+            return;
+        }
+        let server: DiscoveredServer = {
+            deviceId: data.device_id,
+            deviceName: data.device_name || 'unknown device',
+            appVersion: data.app_version,
+            appVersionCode: parseInt(data.app_version_code) || 0,
+            host: rinfo.address,
+            port: parseInt(data.port) || null,
+            lastSeen: Date.now(),
+        };
+        let key = `${server.deviceId}@${server.host}`;
+        let previous = this.found.get(key);
+        this.found.set(key, server);
+        if (!previous || previous.deviceName !== server.deviceName || previous.port !== server.port || previous.appVersion !== server.appVersion) {
+            logDebug(`discovered AutoJs6 server: ${server.deviceName} (${server.host})`);
+            this.emit('change', this.servers);
+        }
+    }
+
+    private expire() {
+        let now = Date.now();
+        let isChanged = false;
+        this.found.forEach((server, key) => {
+            if (now - server.lastSeen > SERVER_TTL) {
+                this.found.delete(key);
+                isChanged = true;
+            }
+        });
+        if (isChanged) {
+            this.emit('change', this.servers);
+        }
+    }
+}
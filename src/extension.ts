@@ -1,22 +1,46 @@
 'use strict';
 
 import * as net from 'net';
+import { promises as dns } from 'dns';
 import { AddressInfo } from 'net';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { Disposable, Memento, OutputChannel, QuickInputButton, TextEditor, ThemeIcon, Uri } from 'vscode';
+import { Disposable, OutputChannel, QuickInputButton, TextEditor, ThemeIcon, Uri } from 'vscode';
 import * as fs from 'fs';
 import * as util from './util';
 import * as querystring from 'querystring';
 
-import i18n from './i18n';
+import i18n, { language } from './i18n';
 import * as pinyin from 'pinyin';
 
-import { Adb } from './adb';
-import { awaiter } from './awaiter';
-import { Device, DeviceInfo, Devices, HTTP_SERVER_PORT, LogData } from './device';
+import { Adb, AdbCancelledError, AdbDeviceEntry, AdbDeviceOfflineError, AdbDeviceUnauthorizedError, AdbError, AdbNotFoundError } from './adb';
+import { AdbWatcher } from './adbWatcher';
+import {
+    CLIENT_ADB_SERVER_PORT,
+    CLIENT_PORT,
+    Device,
+    DeviceInfo,
+    Devices,
+    DeviceState,
+    HTTP_SERVER_PORT,
+    LISTENING_PORT,
+    LogData,
+    REQUIRED_AUTOJS6_VERSION_CODE,
+    REQUIRED_AUTOJS6_VERSION_NAME,
+} from './device';
+import { AckData } from './protocol';
+import { TransferCancelledError } from './transfer';
+import { Pairing } from './pairing';
+import { CertificatePins, loadOrCreateCertificate } from './certificate';
+import { DEVICES_VIEW_ID, DeviceItem, DevicesTreeProvider, RecordItem } from './devicesView';
+import { DeviceStatusBar } from './statusBar';
+import { DeviceDirectory } from './deviceDirectory';
+import { ConnectionHistory, ConnectionRecord } from './connectionHistory';
+import { Discovery } from './discovery';
+import { QrCodePanel } from './qrCodePanel';
+import { ScreenPanel } from './screenPanel';
+import { Broker, BrokerRole, DeviceSnapshot, ListenerInfo } from './broker';
 import { Project, ProjectTemplate } from './project';
-import { SpawnSyncReturns } from 'child_process';
 import * as http from 'http';
 import * as url from 'url';
 import EventEmitter = require('events');
@@ -32,12 +56,16 @@ const deviceChannel: { [prop: string]: OutputChannel } = {};
 
 const IP_LOOP_BACK = '127.0.0.1';
 const IP_UNIVERSAL = '0.0.0.0';
+const IP6_LOOP_BACK = '::1';
+const IP6_UNIVERSAL = '::';
 const EXTENSION_NAME = 'AutoJs6 VSCode Extension';
 
 const PLACEHOLDER_INPUT_OR_SELECT_A_WAY_TO_CONNECT = '输入或选择连接建立方式';
 const PLACEHOLDER_INPUT_OR_SELECT_A_NETWORK_INTERFACE = '输入或选择一个网络接口';
 const PLACEHOLDER_FETCHING_DETAILS_IN_BACKGROUND = '正在后台获取详细信息';
 
+const DOCUMENT_URL = 'https://docs.autojs6.com/';
+
 const STRING_YES = '是 (Yes)';
 const STRING_NO = '否 (No)';
 
@@ -45,16 +73,63 @@ export const CONNECTION_TYPE_CLIENT_LAN = 0;
 export const CONNECTION_TYPE_SERVER_LAN = 1;
 export const CONNECTION_TYPE_SERVER_ADB = 2;
 
-const storageIpAddressBlacklist = [ IP_LOOP_BACK, IP_UNIVERSAL ];
-const regexIpAddress = /^((25[0-5]|(2[0-4]|1\d|[1-9]|)\d)\.?\b){4}(:\d+)?$/;
+const KEY_TARGET_DEVICES = 'autojs6.targetDevices';
+const KEY_TARGET_GROUPS = 'autojs6.targetGroups';
+
+const portSettings = {
+    listeningPort: { defaultPort: LISTENING_PORT, name: 'AutoJs6 客户端模式连接' },
+    serverPort: { defaultPort: CLIENT_PORT, name: 'AutoJs6 服务端模式' },
+    adbServerPort: { defaultPort: CLIENT_ADB_SERVER_PORT, name: 'AutoJs6 ADB 辅助服务' },
+    httpServerPort: { defaultPort: HTTP_SERVER_PORT, name: 'HTTP 命令服务' },
+};
+
+type PortSetting = keyof typeof portSettings;
+
+const ADB_GETPROP_TIMEOUT = 3e3;
+const ADB_WIRELESS_TIMEOUT = 15e3;
+const ADB_TCPIP_PORT = 5555;
+const SCREEN_CAPTURE_TIMEOUT = 15e3;
+const AUTOJS6_PACKAGE_NAME = 'org.autojs.autojs6';
+const AUTOJS6_DEBUG_SERVER_URI = 'content://org.autojs.autojs.debug.provider/debug-server';
+const ADB_DEVICE_STATE_LABELS: { [state: string]: string } = {
+    unauthorized: '未授权 USB 调试',
+    offline: '离线',
+    authorizing: '正在授权',
+    connecting: '正在连接',
+    'no permissions': '无访问权限',
+};
+
+const storageIpAddressBlacklist = [ IP_LOOP_BACK, IP_UNIVERSAL, IP6_LOOP_BACK, IP6_UNIVERSAL ];
+
+const UNCONFIRMED_STOP_DELAY = 1e3;
 
 const pickButtons: {
     close: QuickInputButton;
+    pin: QuickInputButton;
+    unpin: QuickInputButton;
+    rename: QuickInputButton;
+    remove: QuickInputButton;
 } = {
     close: {
         iconPath: new ThemeIcon('close'),
         tooltip: i18n.close,
     },
+    pin: {
+        iconPath: new ThemeIcon('pin'),
+        tooltip: '置顶',
+    },
+    unpin: {
+        iconPath: new ThemeIcon('pinned'),
+        tooltip: '取消置顶',
+    },
+    rename: {
+        iconPath: new ThemeIcon('edit'),
+        tooltip: '重命名',
+    },
+    remove: {
+        iconPath: new ThemeIcon('trash'),
+        tooltip: '删除',
+    },
 };
 
 const picker = {
@@ -62,7 +137,10 @@ const picker = {
         connect: '连接',
         clear: '清理',
         record: '记录',
+        discovered: '发现',
         optional: '可选',
+        pair: '配对',
+        switch: '切换',
         removeOperation(s: string) {
             const regexPrefixOperation = /^\[ [\u4e00-\u9fff]+ ] - /;
             return s.replace(regexPrefixOperation, '');
@@ -73,6 +151,7 @@ const picker = {
         server: '服务端模式 (Server)',
         client: '客户端模式 (Client)',
         record: 'IP 地址记录 (IP Address Records)',
+        wireless: '无线调试 (Wireless Debugging)',
     },
     agents: {
         lan: '局域网 (LAN)',
@@ -100,6 +179,10 @@ type CommandsHierarchy = {
     action?(): void;
 }
 
+type ConnectionWay = 'ajClientLan' | 'ajClientQr' | 'ajServerLan' | 'ajServerAdb';
+
+type DeviceScope = 'all' | 'specified';
+
 const commandsHierarchy: CommandsHierarchy[] = [ {
     instruction: 1,
     desc: { zh: '连接', en: 'Connect' },
@@ -110,25 +193,25 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: `${picker.commands.server} | ${picker.agents.lan}`,
             action() {
-
+                extension.connectVia('ajClientLan');
             },
         }, {
             instruction: 2,
             desc: `${picker.commands.server} | ${picker.agents.qr}`,
             action() {
-
+                extension.connectVia('ajClientQr');
             },
         }, {
             instruction: 4,
             desc: `${picker.commands.client} | ${picker.agents.lan}`,
             action() {
-
+                extension.connectVia('ajServerLan');
             },
         }, {
             instruction: 5,
             desc: `${picker.commands.client} | ${picker.agents.adb}`,
             action() {
-
+                extension.connectVia('ajServerAdb');
             },
         } ],
     }, {
@@ -138,13 +221,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.disconnectFrom('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.disconnectFrom('specified');
             },
         } ],
     } ],
@@ -158,13 +241,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.runScriptOn('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.runScriptOn('specified');
             },
         } ],
     }, {
@@ -174,13 +257,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.runProjectOn('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.runProjectOn('specified');
             },
         } ],
     } ],
@@ -194,13 +277,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.saveScriptOn('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.saveScriptOn('specified');
             },
         } ],
     }, {
@@ -210,13 +293,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.saveProjectOn('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.saveProjectOn('specified');
             },
         } ],
     } ],
@@ -230,13 +313,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.stopScriptOn('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.stopScriptOn('specified');
             },
         } ],
     }, {
@@ -246,13 +329,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: { zh: '全部设备', en: 'All Devices' },
             action() {
-
+                extension.stopAllScriptsOn('all');
             },
         }, {
             instruction: 2,
             desc: { zh: '指定设备', en: 'Specified Devices' },
             action() {
-
+                extension.stopAllScriptsOn('specified');
             },
         } ],
     } ],
@@ -263,13 +346,13 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
         instruction: 1,
         desc: commandsHierarchyPreset.desc.file,
         action() {
-
+            extension.newUntitledFile();
         },
     }, {
         instruction: 2,
         desc: commandsHierarchyPreset.desc.project,
         action() {
-
+            extension.newProject();
         },
     } ],
 }, {
@@ -282,41 +365,66 @@ const commandsHierarchy: CommandsHierarchy[] = [ {
             instruction: 1,
             desc: commandsHierarchyPreset.desc.viewWithVscBrowser,
             action() {
-
+                extension.viewDocument('vscode');
             },
         }, {
             instruction: 2,
             desc: commandsHierarchyPreset.desc.viewWithSysBrowser,
             action() {
-
+                extension.viewDocument('system');
             },
         } ],
     } ],
 }, {
     instruction: '?',
     desc: { zh: '查看全部命令层级', en: 'View All Commands Hierarchy' },
-    action() {
-
-    },
 } ];
 
+function describeCommand(node: CommandsHierarchy) {
+    if (typeof node.desc === 'string') {
+        return node.desc;
+    }
+    return language === 'zh-cn' ? node.desc.zh : node.desc.en || node.desc.zh;
+}
+
+/**
+ * Paths from the top level to each command with an action, e.g. 6-2-2 for running the project on specified devices.
+ */
+function flattenCommandsHierarchy(nodes: CommandsHierarchy[], trail: CommandsHierarchy[] = []): CommandsHierarchy[][] {
+    return nodes.flatMap((node) => {
+        if (node.subs) {
+            return flattenCommandsHierarchy(node.subs, [ ...trail, node ]);
+        }
+        return node.action ? [ [ ...trail, node ] ] : [];
+    });
+}
+
 // @Reference to AutoX by SuperMonster003 on Jun 11, 2023.
 class AJHttpServer extends EventEmitter {
     public isHttpServerStarted = false;
     public port: number;
 
-    private httpServer: http.Server;
+    private httpServer: http.Server = null;
+    private closeHttpServer: () => void = null;
+    private readonly requestListener: http.RequestListener;
 
-    constructor(port: number) {
+    constructor(authorize: (token: string | string[]) => boolean) {
         super();
-        this.port = port;
-        this.httpServer = http.createServer((request, response) => {
+        this.requestListener = (request, response) => {
             logDebug('Received request for ' + request.url);
 
             let urlObj = url.parse(request.url);
             let queryObjRaw = urlObj.query;
             let queryObj = querystring.parse(queryObjRaw);
 
+            let bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization || '');
+            if (!authorize(bearer ? bearer[1] : queryObj.token)) {
+                logDebug(`Rejected unauthorized HTTP request from ${request.socket.remoteAddress}: ${urlObj.pathname}`);
+                response.writeHead(401);
+                response.end();
+                return;
+            }
+
             // let urlObj = new url.URL(request.url);
             // let queryObjRaw = urlObj.searchParams;
             // let queryObj: {[prop in keyof AJHttpServerParamList]: string} = {
@@ -336,49 +444,113 @@ class AJHttpServer extends EventEmitter {
                 response.writeHead(404);
                 response.end();
             }
-        });
-        this.httpServer.listen(port, '0.0.0.0', () => {
-            this.isHttpServerStarted = true;
-            const address: any = this.httpServer.address();
-            // var localAddress = this.getIPAddress();
-            logDebug(`server listening on port ${address.port}`);
-            this.emit('connect');
+        };
+    }
+
+    /**
+     * Binds a new server to the port and resolves with the bound port. The former server, if any,
+     * keeps serving until then, so that a port which cannot be bound leaves it in place.
+     */
+    listen(port: number): Promise<number> {
+        return new Promise<number>((resolve, reject) => {
+            let server = http.createServer(this.requestListener);
+            // Kept-alive connections would keep the server from closing
+            let sockets = new Set<net.Socket>();
+            server.on('connection', (socket: net.Socket) => {
+                sockets.add(socket);
+                socket.on('close', () => sockets.delete(socket));
+            });
+            server.once('error', reject);
+            server.listen(port, '0.0.0.0', () => {
+                server.removeListener('error', reject);
+                server.on('error', e => this.emit('error', e));
+                if (this.closeHttpServer !== null) {
+                    this.closeHttpServer();
+                }
+                this.httpServer = server;
+                this.closeHttpServer = () => {
+                    server.close();
+                    sockets.forEach(socket => socket.destroy());
+                };
+                this.isHttpServerStarted = true;
+                const address: any = this.httpServer.address();
+                // var localAddress = this.getIPAddress();
+                logDebug(`server listening on port ${address.port}`);
+                this.port = address.port;
+                this.emit('connect');
+                resolve(this.port);
+            });
         });
     }
 }
 
 export class Extension {
     private readonly context: vscode.ExtensionContext;
-    private readonly storageKey: string = 'autojs6.devices';
     private readonly picks = {
         ajClientLan: this.newPicker('connect', 'server', 'lan', 'AutoJs6 作为客户端连接至 VSCode 服务端 (使用 IP 地址)'),
         ajClientQr: this.newPicker('connect', 'server', 'lan', 'AutoJs6 作为客户端连接至 VSCode 服务端 (使用 二维码)'),
         ajServerLan: this.newPicker('connect', 'client', 'lan', 'VSCode 作为客户端连接至 AutoJs6 服务端 (使用 IP 地址)'),
         ajServerAdb: this.newPicker('connect', 'client', 'adb', 'VSCode 作为客户端连接至 AutoJs6 服务端 (使用 ADB)'),
-        recordClear: this.newPicker('clear', 'record', null, '清除保存在本地的全部客户端 IP 地址记录'),
+        recordClear: this.newPicker('clear', 'record', null, '清除保存在本地的全部客户端 IP 地址记录 (已置顶的记录除外)'),
         recordPrefix: this.newPicker('record', 'empty', null, 'VSCode 作为客户端使用 IP 地址 %s 连接至 AutoJs6 服务端'),
+        adbPair: this.newPicker('pair', 'wireless', 'adb', '使用配对码配对 Android 11+ 设备的无线调试, 配对后连接至 AutoJs6 服务端'),
+        adbTcpip: this.newPicker('switch', 'wireless', 'adb', '将通过 USB 连接的设备切换为无线调试 (adb tcpip), 之后可拔出数据线'),
     };
+    /**
+     * Commands which may also be executed remotely, through the HTTP server or by a device.
+     */
     static readonly commands: Array<keyof Extension> = [
         'viewDocument', 'connect', 'disconnectAll', 'run', 'runWithoutArguments',
         'runOnDevice', 'stop', 'stopAll', 'rerun', 'save', 'saveToDevice',
         'newUntitledFile', 'newProject', 'runProject', 'saveProject', 'commandsHierarchy',
     ];
+    /**
+     * Commands only registered in VSCode, as they act on trust, pairing or items of the views.
+     */
+    private static readonly localCommands: Array<keyof Extension> = [
+        'showPairingCode', 'revokeDeviceTrust', 'enableServerModeOverAdb', 'captureScreen',
+        'runOnDeviceItem', 'stopOnDeviceItem', 'stopAllOnDeviceItem', 'saveToDeviceItem', 'saveProjectToDeviceItem',
+        'showDeviceItemLog', 'disconnectDeviceItem', 'connectToRecordItem', 'forgetRecordItem',
+        'showDeviceMenu', 'selectTargetDevices', 'setDeviceAlias', 'createDeviceGroup', 'deleteDeviceGroup',
+    ];
 
     private adb: Adb;
+    private adbWatcher: AdbWatcher;
+    /**
+     * Local ports forwarded for each ADB device connected by this window.
+     */
+    private readonly adbForwards = new Map<string, number[]>();
     private client: Devices;
-    private storage: Memento;
+    private httpServer: AJHttpServer;
+    private broker: Broker;
+    private pairing: Pairing;
+    private pins: CertificatePins;
+    private directory: DeviceDirectory;
+    private devicesView: DevicesTreeProvider;
+    private history: ConnectionHistory;
     private lastActiveEditor: TextEditor;
 
     constructor(context: vscode.ExtensionContext, extensionScope: any) {
         this.context = context;
-        this.storage = this.getWrappedGlobalState();
+        this.history = new ConnectionHistory(context.globalState);
+        this.pairing = new Pairing(context);
+        this.pins = new CertificatePins(context.globalState);
+        this.directory = new DeviceDirectory(context.globalState);
 
         this.initActiveEditor();
         this.initAdb(context.extensionPath, 'tools');
         this.initClient();
+        this.initPorts();
+        this.initAdbWatcher();
+        this.initBroker();
+        this.initTls();
+        this.initDevicesView();
+        this.initStatusBar();
         this.registerCommands();
 
-        extensionScope.deactivate = this.disconnectAll.bind(this);
+        this.history.migrate(Device.defaultClientPort).then(() => this.devicesView.refresh());
+
+        extensionScope.deactivate = this.deactivate.bind(this);
     }
 
     private connectToLocalHint() {
@@ -387,15 +559,57 @@ export class Extension {
             vscode.window.showErrorMessage('未找到可用的局域网 IP 地址');
             return;
         }
-        this.showQuickPickForAvailableNetworkInterfaces(basicNI).then((ip) => {
-            if (ip !== undefined) {
-                vscode.window.showInformationMessage(`在 AutoJs6 侧拉菜单开启客户端模式并连接至 ${ip}`);
+        this.getListener().then((listener) => {
+            if (listener === null) {
+                return;
             }
+            this.showQuickPickForAvailableNetworkInterfaces(basicNI).then((ip) => {
+                if (ip !== undefined) {
+                    let address = util.formatHostPort(ip, listener.port === LISTENING_PORT ? null : listener.port);
+                    if (listener.pairingCode) {
+                        vscode.window.showInformationMessage(`在 AutoJs6 侧拉菜单开启客户端模式并连接至 ${address}, 配对码: ${listener.pairingCode}`);
+                    } else {
+                        vscode.window.showInformationMessage(`在 AutoJs6 侧拉菜单开启客户端模式并连接至 ${address}`);
+                    }
+                }
+            });
         });
     }
 
-    private static showLocalQrCode() {
+    private showLocalQrCode() {
+        const basicNI = util.getBasicNetworkInterfaces();
+        if (basicNI.length === 0) {
+            vscode.window.showErrorMessage('未找到可用的局域网 IP 地址');
+            return;
+        }
+        this.getListener().then((listener) => {
+            if (listener === null) {
+                return;
+            }
+            this.showQuickPickForAvailableNetworkInterfaces(basicNI).then((ip) => {
+                if (ip !== undefined) {
+                    QrCodePanel.show(this.client, this.broker, ip, listener.port);
+                }
+            });
+        });
+    }
 
+    /**
+     * Listener accepting AutoJs6 in client mode, which may be owned by another window, or null if not listening.
+     */
+    private getListener(): Promise<ListenerInfo> {
+        return this.broker.listener().then((listener) => {
+            if (listener.port === null) {
+                vscode.window.showErrorMessage(`VSCode 未能监听 AutoJs6 客户端模式连接, 请检查端口设置`, '修改设置').then((choice) => {
+                    choice && vscode.commands.executeCommand('workbench.action.openSettings', 'autojs6.listeningPort');
+                });
+                return null;
+            }
+            return listener;
+        }, (e) => {
+            vscode.window.showErrorMessage(`无法获取 AutoJs6 客户端模式连接信息: ${e.message}`);
+            return null;
+        });
     }
 
     private newPicker(operation: string, command: string, agent: string, detail: string): vscode.QuickPickItem {
@@ -413,10 +627,36 @@ export class Extension {
     }
 
     private runFile(url?: string) {
-        this.runFileOn(this.client.devices, url);
+        return this.runFileOn(this.getTargetDevices(), url);
+    }
+
+    /**
+     * Resolves the selected target devices and groups of the workspace into device ids.
+     */
+    private applyTargets() {
+        let ids = this.context.workspaceState.get<string[]>(KEY_TARGET_DEVICES, []).slice();
+        this.context.workspaceState.get<string[]>(KEY_TARGET_GROUPS, []).forEach((name) => {
+            let group = this.directory.group(name);
+            if (group) {
+                ids.push(...group.deviceIds);
+            }
+        });
+        this.client.setTargetDeviceIds(Array.from(new Set(ids)));
     }
 
-    private runFileOn(devices: Device[], url?: string) {
+    /**
+     * Devices which commands without explicit device selection are sent to.
+     */
+    private getTargetDevices(): Device[] {
+        let targets = this.client.targetDevices;
+        if (targets.length === 0 && this.client.targetDeviceIds.length > 0 && this.client.hasDevices()) {
+            vscode.window.showWarningMessage('目标设备均未连接, 已改为发送至全部已连接设备');
+            return this.client.devices.slice();
+        }
+        return targets;
+    }
+
+    private async runFileOn(devices: Device[], url?: string) {
         if (devices.length === 0) {
             vscode.window.showErrorMessage('未发现已连接的设备');
             return;
@@ -428,32 +668,56 @@ export class Extension {
                 vscode.window.showErrorMessage('需在正在编辑的文件窗口中使用运行命令');
                 return;
             }
-            devices.forEach((device) => {
-                device.sendCommand('run', {
-                    id: editor.document.fileName,
-                    name: this.getEditorFileName(editor),
-                    script: editor.document.getText(),
-                });
-            });
-            vscode.window.showInformationMessage("文件运行命令发送成功");
+            let results = await this.client.sendCommand('run', {
+                id: editor.document.fileName,
+                name: this.getEditorFileName(editor),
+                script: editor.document.getText(),
+            }, devices);
+            this.reportCommandResults(devices, results, '文件运行');
             return;
         }
         try {
             let fileName = Uri.parse(url).fsPath;
             let script = fs.readFileSync(fileName, 'utf8');
-            devices.forEach((device) => {
-                device.sendCommand('run', {
-                    id: fileName,
-                    name: fileName,
-                    script: script,
-                });
-            });
-            vscode.window.showInformationMessage("文件运行命令发送成功");
+            let results = await this.client.sendCommand('run', {
+                id: fileName,
+                name: fileName,
+                script: script,
+            }, devices);
+            this.reportCommandResults(devices, results, '文件运行');
         } catch (error) {
             logDebug(error);
         }
     }
 
+    private reportCommandResults(devices: Device[], results: PromiseSettledResult<AckData>[], action: string) {
+        let succeeded = 0;
+        let unconfirmed = 0;
+        results.forEach((result, i) => {
+            if (result.status === 'fulfilled') {
+                succeeded += 1;
+                unconfirmed += result.value.unconfirmed ? 1 : 0;
+                return;
+            }
+            let reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+            logDebug(`${action} failed on ${devices[i]}: ${reason}`);
+            if (result.reason instanceof TransferCancelledError) {
+                vscode.window.showWarningMessage(`设备 ${devices[i]} ${action}已取消`);
+            } else {
+                vscode.window.showErrorMessage(`设备 ${devices[i]} ${action}命令执行失败: ${reason}`);
+            }
+        });
+        if (succeeded > 0 && unconfirmed === succeeded) {
+            // Devices without the "ack" capability give no feedback, so the command is merely known to be sent.
+            vscode.window.showInformationMessage(`${action}命令已发送 (${succeeded}/${results.length} 台设备), 设备未确认执行结果`);
+        } else if (succeeded === results.length) {
+            vscode.window.showInformationMessage(`${action}命令发送成功`);
+        } else if (succeeded > 0) {
+            vscode.window.showInformationMessage(`${action}命令发送成功 (${succeeded}/${results.length} 台设备)`);
+        }
+        return succeeded;
+    }
+
     private getEditorFileName(editor: vscode.TextEditor) {
         let fileName = editor.document.fileName;
         if (editor.document.isUntitled) {
@@ -525,39 +789,81 @@ export class Extension {
         this.adb = new Adb(path.join(...path));
     }
 
+    /**
+     * Watches ADB devices when "autojs6.autoConnectAdb" is on, which only the broker host does.
+     */
+    private initAdbWatcher() {
+        this.adbWatcher = new AdbWatcher(this.adb)
+            .on('attached', (adbDeviceId: string) => {
+                logDebug(`ADB device attached: ${adbDeviceId}`);
+                this.autoConnectAdbDevice(adbDeviceId);
+            })
+            .on('detached', (adbDeviceId: string) => {
+                logDebug(`ADB device detached: ${adbDeviceId}`);
+                let isOnDevice = (device: Device) => device.connectionType === CONNECTION_TYPE_SERVER_ADB && device.adbDeviceId === adbDeviceId;
+                // The socket usually drops before the cable is reported as unplugged, so the device may be reconnecting already.
+                this.client.reconnectingDevices.filter(isOnDevice).forEach(device => this.client.cancelReconnect(device));
+                this.client.devices.filter(isOnDevice).forEach(device => device.disconnect());
+            });
+        this.context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('autojs6.autoConnectAdb')) {
+                this.updateAdbWatcher();
+            }
+        }));
+    }
+
+    private updateAdbWatcher() {
+        let isEnabled = vscode.workspace.getConfiguration('autojs6').get<boolean>('autoConnectAdb', false);
+        if (isEnabled && this.broker.role === 'host') {
+            this.adbWatcher.start();
+        } else {
+            this.adbWatcher.stop();
+        }
+    }
+
     private initClient() {
-        this.client = new Devices()
-            .on('new_device', (device: Device, type: number) => {
-                let newDeviceIp = device.connection.remoteAddress?.replace(/.*?:?((\d+\.){3}\d+$)/, '$1');
-                device.host = newDeviceIp;
-                logDebug('new device host', newDeviceIp);
-
-                let storageDataRaw = this.storage.get(this.storageKey, []);
-                logDebug('storage data', storageDataRaw);
-                let isUpdated = false;
-
-                const prefixRecord = `[ ${picker.operations.record} ] - `;
-
-                for (let i = 0; i < storageDataRaw.length; i += 1) {
-                    let data = storageDataRaw[i];
-                    let [ ip ] = data.split('|');
-                    ip = ip.replace(prefixRecord, '');
-                    if (ip === newDeviceIp) {
-                        let newData = [ ip, Date.now() ].join('|');
-                        storageDataRaw.splice(i, 1);
-                        storageDataRaw.unshift(newData);
-                        this.storage.update(this.storageKey, storageDataRaw);
-
-                        isUpdated = true;
-
-                        /* No break, for removing duplication. */
-                        // break;
-                    }
-                }
-                if (!isUpdated) {
-                    if (!storageIpAddressBlacklist.includes(newDeviceIp)) {
-                        storageDataRaw.unshift([ newDeviceIp, Date.now() ].join('|'));
-                        this.storage.update(this.storageKey, storageDataRaw);
+        this.client = new Devices();
+        this.client.aliasResolver = deviceId => this.directory.aliasOf(deviceId);
+        this.applyTargets();
+        this.client.adbPortForwarder = this.forwardAdbPorts.bind(this);
+        this.client.authenticator = (device, hello) => {
+            if (!Extension.isPairingRequired()) {
+                return { accepted: true };
+            }
+            return this.pairing.verify({
+                deviceId: hello.device_id,
+                deviceName: hello.device_name,
+                pairingCode: hello.pairing_code,
+                pairingToken: hello.pairing_token,
+            });
+        };
+        this.client
+            .on('new_device', (device: Device, type: number, isReattached: boolean) => {
+                // Devices relayed from another window are recorded by that window
+                if (device.connection) {
+                    let newDeviceIp = util.normalizeAddress(device.connection.remoteAddress);
+                    device.host = newDeviceIp;
+                    logDebug('new device host', newDeviceIp);
+
+                    if (type === CONNECTION_TYPE_SERVER_ADB) {
+                        this.history.add({
+                            transport: 'adb',
+                            host: null,
+                            port: null,
+                            adbSerial: device.adbDeviceId,
+                            deviceId: device.deviceId,
+                            deviceName: device.deviceName,
+                        });
+                    } else if (!storageIpAddressBlacklist.includes(newDeviceIp)) {
+                        this.history.add({
+                            transport: 'lan',
+                            // 保留用户输入的主机名 (如 "phone.local"), 以便 IP 变化后仍可重连
+                            host: type === CONNECTION_TYPE_SERVER_LAN ? device.target.host : newDeviceIp,
+                            port: type === CONNECTION_TYPE_SERVER_LAN ? device.target.port : Device.defaultClientPort,
+                            adbSerial: null,
+                            deviceId: device.deviceId,
+                            deviceName: device.deviceName,
+                        });
                     }
                 }
 
@@ -567,19 +873,42 @@ export class Extension {
                     deviceChannel[device.deviceId] = devChn;
                 }
                 devChn.show(true);
-                vscode.window.showInformationMessage(`AutoJs6 设备接入: ${device}`);
+                if (isReattached) {
+                    vscode.window.showInformationMessage(`AutoJs6 设备已重新连接: ${device}`);
+                } else {
+                    vscode.window.showInformationMessage(`AutoJs6 设备接入: ${device}`);
+                }
                 if (type === CONNECTION_TYPE_SERVER_ADB) {
                     connectedServerAdb.add(device.adbDeviceId);
                 } else if (type === CONNECTION_TYPE_SERVER_LAN) {
-                    connectedServerLan.add(device.host);
+                    connectedServerLan.add(device.target?.host ?? device.host);
                 }
                 logDebug(connectedServerAdb);
                 logDebug(connectedServerLan);
             })
             .on('detach_device', (device: Device) => {
-                vscode.window.showInformationMessage(`AutoJs6 设备断开: ${device}`);
+                if (device.state === 'reconnecting') {
+                    vscode.window.showWarningMessage(`AutoJs6 设备连接中断, 正在尝试重新连接: ${device}`);
+                } else {
+                    vscode.window.showInformationMessage(`AutoJs6 设备断开: ${device}`);
+                }
                 connectedServerAdb.delete(device.adbDeviceId);
-                connectedServerLan.delete(device.host);
+                connectedServerLan.delete(device.target?.host ?? device.host);
+            })
+            .on('reconnect_failed', (device: Device) => {
+                vscode.window.showErrorMessage(`AutoJs6 设备重新连接失败: ${device}`);
+            })
+            .on('device_state', (device: Device, state: DeviceState) => {
+                // A device reconnecting keeps its forwards until new ones replace them
+                let isClosedAdbDevice = state === 'closed' && device.connectionType === CONNECTION_TYPE_SERVER_ADB;
+                if (isClosedAdbDevice && !this.client.devices.some(o => o !== device && o.adbDeviceId === device.adbDeviceId)) {
+                    this.removeAdbForwards(device.adbDeviceId);
+                }
+            })
+            .on('reject_device', (device: Device, address: string, reason: string) => {
+                logDebug(`Rejected device connection from ${address}: ${reason}`);
+                vscode.window.showWarningMessage(`已拒绝未配对设备的连接: ${device} (${reason})`, '显示配对码')
+                    .then(choice => choice && this.showPairingCode());
             })
             .on('log', (data: LogData) => {
                 logDebug('## on log');
@@ -591,42 +920,199 @@ export class Extension {
             });
     }
 
+    private initPorts() {
+        this.httpServer = new AJHttpServer(token => this.authorizeHttpRequest(token))
+            .on('cmd', (cmd: keyof Extension, ...params) => {
+                logDebug(`Received cmd: ${cmd}`);
+                switch (cmd) {
+                    case 'rerunProject':
+                        this.stopAll().then(Extension.afterStopped).then(() => this.run(...params));
+                        break;
+                    default:
+                        if (!Extension.commands.includes(cmd)) {
+                            vscode.window.showErrorMessage(`接收到未知指令 "${cmd}"`);
+                            return;
+                        }
+                        logDebug(`执行接收到的指令 "${cmd}"`);
+                        this[cmd]['call'](this, ...params);
+                }
+            })
+            .on('error', (e) => {
+                logDebug(`HTTP server error: ${e}`);
+            });
+
+        let updateDevicePorts = () => {
+            Device.defaultClientPort = Extension.getPortSetting('serverPort');
+            Device.defaultAdbServerPort = Extension.getPortSetting('adbServerPort');
+        };
+        updateDevicePorts();
+
+        // The ports are bound once this window has become the broker host.
+        this.context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('autojs6.serverPort') || e.affectsConfiguration('autojs6.adbServerPort')) {
+                updateDevicePorts();
+            }
+            if (this.broker.role !== 'host') {
+                return;
+            }
+            if (e.affectsConfiguration('autojs6.listeningPort')) {
+                this.bindPort('listeningPort', port => this.client.listen(port));
+            }
+            if (e.affectsConfiguration('autojs6.httpServerPort')) {
+                this.bindPort('httpServerPort', port => this.httpServer.listen(port));
+            }
+        }));
+    }
+
+    private initBroker() {
+        this.broker = new Broker(this.client, {
+            listener: () => ({
+                port: this.client.port,
+                pairingCode: Extension.isPairingRequired() ? this.pairing.pairingCode : null,
+            }),
+            issueOneTimeCode: () => this.pairing.issueOneTimeCode(),
+            revokeOneTimeCode: code => this.pairing.revokeOneTimeCode(code),
+            connectToAdb: adbDeviceId => this.connectToAdb(adbDeviceId),
+        });
+        this.broker.on('role', (role: BrokerRole, orphans: DeviceSnapshot[]) => {
+            this.updateAdbWatcher();
+            if (role === 'guest') {
+                logDebug('device connections are owned by another VSCode window');
+                return;
+            }
+            this.bindPort('listeningPort', port => this.client.listen(port));
+            this.bindPort('httpServerPort', port => this.httpServer.listen(port));
+            this.reconcileAdbForwards().then(() => orphans.forEach(snapshot => this.reconnectOrphan(snapshot)));
+        });
+        this.broker.start();
+    }
+
+    /**
+     * Reconnects to an AutoJs6 server which the former host window was connected to.
+     * Devices in client mode have to connect to this window by themselves.
+     */
+    private async reconnectOrphan(snapshot: DeviceSnapshot) {
+        logDebug(`taking over device from the former host window: ${snapshot.deviceName}`);
+        try {
+            if (snapshot.connectionType === CONNECTION_TYPE_SERVER_LAN && snapshot.target) {
+                await this.client.connectTo(snapshot.target.host, snapshot.target.port, CONNECTION_TYPE_SERVER_LAN);
+            } else if (snapshot.connectionType === CONNECTION_TYPE_SERVER_ADB && snapshot.adbDeviceId) {
+                await this.connectToAdb(snapshot.adbDeviceId);
+            }
+        } catch (e) {
+            logDebug(`failed to take over device ${snapshot.deviceName}: `, e);
+        }
+    }
+
+    /**
+     * Binds the configured port, offering the next available one when it is taken, e.g. by another VSCode window.
+     * Resolves with the bound port, or null if nothing was bound.
+     */
+    private bindPort(setting: PortSetting, listen: (port: number) => Promise<number>): Promise<number> {
+        let port = Extension.getPortSetting(setting);
+        let name = portSettings[setting].name;
+        return listen(port).catch(async (e) => {
+            logDebug(`Failed to bind ${setting} ${port}: `, e);
+            if (e.code !== 'EADDRINUSE' && e.code !== 'EACCES') {
+                vscode.window.showErrorMessage(`${name}端口 ${port} 无法使用: ${e.message}`);
+                return null;
+            }
+            let alternative = await util.findNextAvailablePort(port);
+            const useAlternative = `使用端口 ${alternative}`;
+            const openSettings = '修改设置';
+            let choice = await vscode.window.showWarningMessage(
+                `${name}端口 ${port} 已被占用, 可能正被其他 VSCode 窗口使用`,
+                ...alternative !== null ? [ useAlternative ] : [],
+                openSettings,
+            );
+            if (choice === openSettings) {
+                vscode.commands.executeCommand('workbench.action.openSettings', `autojs6.${setting}`);
+            }
+            if (choice !== useAlternative) {
+                return null;
+            }
+            return listen(alternative).then((bound) => {
+                vscode.window.showInformationMessage(`${name}已改用端口 ${bound} (仅对当前窗口有效)`);
+                return bound;
+            }, (e) => {
+                vscode.window.showErrorMessage(`${name}端口 ${alternative} 无法使用: ${e.message}`);
+                return null;
+            });
+        });
+    }
+
+    /**
+     * Host of the record, followed by the port if it differs from the configured AutoJs6 server port.
+     */
+    private static addressOf(record: ConnectionRecord) {
+        return util.formatHostPort(record.host, record.port !== Device.defaultClientPort ? record.port : null);
+    }
+
+    /**
+     * Resolves a hostname (incl. mDNS `.local` names) ahead of connecting, so that a typo is reported as such
+     * instead of a generic connection failure. IP literals are returned as-is.
+     */
+    private static async resolveHost(host: string): Promise<string> {
+        if (net.isIP(host)) {
+            return host;
+        }
+        return (await dns.lookup(host)).address;
+    }
+
+    private static getPortSetting(setting: PortSetting): number {
+        let port = vscode.workspace.getConfiguration('autojs6').get<number>(setting);
+        return Number.isInteger(port) && port > 0 && port < 65536 ? port : portSettings[setting].defaultPort;
+    }
+
+    private initTls() {
+        let update = () => {
+            if (!vscode.workspace.getConfiguration('autojs6').get<boolean>('enableTls', false)) {
+                this.client.tls = null;
+                return;
+            }
+            loadOrCreateCertificate(this.context.globalStoragePath).then((certificate) => {
+                logDebug(`TLS enabled, certificate fingerprint: ${certificate.fingerprint}`);
+                this.client.tls = {
+                    ...certificate,
+                    verifyPeer: (deviceId, deviceName, fingerprint) => this.pins.verify(deviceId, deviceName, fingerprint),
+                    isPinned: deviceId => this.pins.isPinned(deviceId),
+                };
+            }).catch((e) => {
+                logDebug('Failed to prepare TLS certificate: ', e);
+                vscode.window.showErrorMessage(`无法生成加密连接所需的证书: ${e.message}`);
+            });
+        };
+        update();
+        this.context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('autojs6.enableTls')) {
+                update();
+            }
+        }));
+    }
+
+    private initDevicesView() {
+        this.devicesView = new DevicesTreeProvider(this.client, () => this.getLanRecords());
+        this.context.subscriptions.push(vscode.window.registerTreeDataProvider(DEVICES_VIEW_ID, this.devicesView), this.devicesView);
+    }
+
+    private initStatusBar() {
+        this.context.subscriptions.push(new DeviceStatusBar(this.client, 'extension.showDeviceMenu'));
+    }
+
+    private getLanRecords(): ConnectionRecord[] {
+        return this.history.records.filter(record => record.transport === 'lan' && !storageIpAddressBlacklist.includes(record.host));
+    }
+
     private registerCommands() {
         if (this.context === null) {
             throw Error('Extension context must be assigned first before accessing');
         }
-        Extension.commands.forEach((command) => {
+        Extension.commands.concat(Extension.localCommands).forEach((command) => {
             let action = this.getBoundAction(command);
             this.context.subscriptions.push(vscode.commands.registerCommand(`extension.${command}`, action));
         });
     }
 
-    private getWrappedGlobalState() {
-        let globalState = this.context.globalState;
-        let ipAddressRecordPrefix = this.picks.recordPrefix.label;
-        let attach = function (addr: string) {
-            let idx = addr.lastIndexOf(ipAddressRecordPrefix);
-            return idx < 0 ? ipAddressRecordPrefix + addr : addr;
-        };
-        let detach = function (addr: string) {
-            let idx = addr.lastIndexOf(ipAddressRecordPrefix);
-            return idx < 0 ? addr : addr.slice(idx + ipAddressRecordPrefix.length);
-        };
-        let state: Memento = {
-            keys(): readonly string[] {
-                return globalState.keys();
-            },
-            get(key: string): string[] {
-                return (globalState.get(key, []) as string[]).map(attach);
-            },
-            update(key: string, addresses: string[]): Thenable<void> {
-                let deduped = Array.from(new Set(addresses.map(detach)));
-                return globalState.update(key, deduped.filter(addr => addr && addr !== IP_LOOP_BACK));
-            },
-        };
-        return state;
-    }
-
     private getBoundAction(command: keyof Extension) {
         let fn = this[command];
         if (typeof fn === 'function') {
@@ -635,29 +1121,29 @@ export class Extension {
         throw Error(`Invalid command: ${command}`);
     }
 
-    private matchDevice(dev: string): DeviceInfo {
-        let matched = /(\S+)\s+device\s(.+)/g.exec(dev);
-        if (!matched || matched.length !== 3) {
-            return null;
-        }
-        let n = matched[2];
-        let o = { id: matched[1], brand: 'Unknown', model: 'Unknown', name: 'NoName' };
-
-        for (let p = 0, i = n.indexOf(':'); i >= 0 && i < n.length;) {
-            let k = i;
-            i = n.indexOf(':', k + 1);
-            if (i == -1) {
-                i = n.length;
+    /**
+     * Completes an entry of "adb devices -l" with the brand of the device, which a slow device may fail to report in time.
+     */
+    private async describeAdbDevice(entry: AdbDeviceEntry, token: vscode.CancellationToken): Promise<DeviceInfo> {
+        let o: DeviceInfo = {
+            id: entry.serial,
+            state: entry.state,
+            brand: 'Unknown',
+            model: entry.properties.model || 'Unknown',
+            product: entry.properties.product,
+            name: entry.serial,
+        };
+        if (entry.state === 'device') {
+            try {
+                o.brand = await this.adb.getprop(o.id, 'ro.product.brand', { timeout: ADB_GETPROP_TIMEOUT, token }) || o.brand;
+            } catch (e) {
+                if (e instanceof AdbCancelledError) {
+                    throw e;
+                }
+                logDebug(`getprop failed on ${o.id}: `, e);
             }
-            let j = n.lastIndexOf(' ', i);
-            o[n.substring(p, k)] = j == -1 ? n.substring(k + 1, i) : n.substring(k + 1, j);
-            p = j + 1;
-        }
-        let res = this.adb.exec([ '-s', o.id, 'shell', 'getprop', 'ro.product.brand' ]).stdout;
-        if (res) {
-            o.brand = res.toString().trim();
-            o.name = `${o.brand} ${o.model} (${o.id})`;
         }
+        o.name = `${o.brand} ${o.model} (${o.id})`;
         return o;
     }
 
@@ -688,7 +1174,19 @@ export class Extension {
     private showQuickPickForDeviceSelection(devices: any[], callback: (selected: any[]) => void) {
         const quickPick = vscode.window.createQuickPick();
 
-        quickPick.items = devices.map(dev => ({ label: dev.toString() })); // 将设备映射成 QuickPickItem
+        // 设备组以组名作为标签, 选中时展开为组内已连接的设备
+        const groupItems = new Map<string, Device[]>();
+        this.directory.groups.forEach((group) => {
+            let members = devices.filter(dev => group.deviceIds.includes(dev.deviceId));
+            if (members.length > 0) {
+                groupItems.set(`$(organization) ${group.name}`, members);
+            }
+        });
+
+        quickPick.items = [
+            ...devices.map(dev => ({ label: dev.toString() })), // 将设备映射成 QuickPickItem
+            ...Array.from(groupItems).map(([ label, members ]) => ({ label, description: `设备组 | ${members.length} 台设备已连接` })),
+        ];
         quickPick.canSelectMany = true;
 
         quickPick.onDidAccept(() => {
@@ -708,6 +1206,7 @@ export class Extension {
                 }
                 finalSelection = Array.from(selectedSet); // 去重
             }
+            finalSelection = finalSelection.flatMap(label => groupItems.has(label) ? groupItems.get(label).map(dev => dev.toString()) : [ label ]);
 
             const selectedDevices = devices.filter(dev => finalSelection.includes(dev.toString()));
             callback(selectedDevices);
@@ -722,7 +1221,7 @@ export class Extension {
         quickPick.show(); // 显示 QuickPick
     }
 
-    private sendProjectCommand(command: ProjectCommands, url?: string) {
+    private sendProjectCommand(command: ProjectCommands, url?: string, devices: Device[] = this.client.devices) {
         let folder = null;
         if (!url) {
             let folders = vscode.workspace.workspaceFolders;
@@ -743,84 +1242,440 @@ export class Extension {
             }
             this.client.project = project;
         }
-        if (!this.client.sendProjectCommand(folder.fsPath, command)) {
+        if (devices.length === 0) {
             vscode.window.showErrorMessage('未发现已连接的设备');
             return;
         }
-        vscode.window.showInformationMessage(`项目${command === "run_project" ? "运行" : "保存"}命令发送成功`);
+        devices = devices.slice();
+        let action = `项目${command === 'run_project' ? '运行' : '保存'}`;
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `正在传输项目文件 (${action})`,
+            cancellable: true,
+        }, (progress, token) => {
+            let fractions = new Map<Device, number>();
+            return this.client.sendProjectCommand(folder.fsPath, command, devices, {
+                token: token,
+                onProgress: (device, sent, total) => {
+                    let fraction = total > 0 ? sent / total : 1;
+                    let increment = (fraction - (fractions.get(device) || 0)) * 100 / devices.length;
+                    fractions.set(device, fraction);
+                    progress.report({ increment, message: `${device} ${Math.floor(fraction * 100)}%` });
+                },
+            });
+        }).then((results) => {
+            this.reportCommandResults(devices, results, action);
+        });
     }
 
+    /**
+     * Keyboard-first navigator of the commands hierarchy, drilling down with each typed instruction.
+     */
     private showCommandHierarchy() {
-        vscode.window.showInformationMessage('将在后续版本实现当前功能');
+        type HierarchyPick = vscode.QuickPickItem & { node: CommandsHierarchy };
+
+        const quickPick = vscode.window.createQuickPick<HierarchyPick>();
+        const trail: CommandsHierarchy[] = [];
+        let isOverview = false;
+
+        const render = () => {
+            let crumbs = isOverview ? [ i18n.commandsHierarchyOverview ] : trail.map(node => `${node.instruction} ${describeCommand(node)}`);
+            quickPick.title = [ i18n.commandsHierarchy, ...crumbs ].join(' › ');
+            quickPick.placeholder = i18n.commandsHierarchyPlaceholder;
+            quickPick.buttons = trail.length > 0 || isOverview ? [ vscode.QuickInputButtons.Back ] : [];
+            quickPick.value = '';
+            if (isOverview) {
+                quickPick.items = flattenCommandsHierarchy(commandsHierarchy).map(path => ({
+                    label: path.map(node => node.instruction).join('-'),
+                    description: path.map(describeCommand).join(' › '),
+                    node: path[path.length - 1],
+                }));
+                return;
+            }
+            let level = trail.length > 0 ? trail[trail.length - 1].subs : commandsHierarchy;
+            quickPick.items = level.map(node => ({
+                label: `${node.instruction}`,
+                description: `${describeCommand(node)}${node.subs ? ' $(chevron-right)' : ''}`,
+                node,
+            }));
+        };
+
+        const back = () => {
+            if (isOverview) {
+                isOverview = false;
+            } else {
+                trail.pop();
+            }
+        };
+
+        // Returns false once a command has been chosen and the navigator is closed
+        const enter = (node: CommandsHierarchy) => {
+            if (node.instruction === '?') {
+                isOverview = true;
+            } else if (node.subs) {
+                trail.push(node);
+            } else {
+                quickPick.hide();
+                node.action && node.action();
+                return false;
+            }
+            return true;
+        };
+
+        quickPick.onDidChangeValue((value) => {
+            if (!value || isOverview && value !== '<') {
+                return;
+            }
+            for (let char of value) {
+                if (char === '<') {
+                    back();
+                    continue;
+                }
+                let level = trail.length > 0 ? trail[trail.length - 1].subs : commandsHierarchy;
+                let node = level.find(o => `${o.instruction}` === char);
+                if (!node) {
+                    render();
+                    quickPick.placeholder = `${i18n.unknownInstruction}: ${char}`;
+                    return;
+                }
+                if (!enter(node)) {
+                    return;
+                }
+                if (isOverview) {
+                    break;
+                }
+            }
+            render();
+        });
+
+        quickPick.onDidAccept(() => {
+            let item = quickPick.activeItems[0];
+            if (item && enter(item.node)) {
+                render();
+            }
+        });
+
+        quickPick.onDidTriggerButton((button) => {
+            if (button === vscode.QuickInputButtons.Back) {
+                back();
+                render();
+            }
+        });
+
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+        });
+
+        render();
+        quickPick.show();
     }
 
     private connectByAdb() {
-        let devices = this.listAdbDevices();
-        if (typeof devices !== 'object' || devices.size === 0) {
-            vscode.window.showErrorMessage('未发现通过 ADB 连接的设备');
-            return;
-        }
-        let commands = Array.from(devices.entries()).map((entry) => {
-            let [ summary, deviceInfo ] = entry;
-            return {
-                label: summary.toString(),
-                detail: `型号: ${deviceInfo.model}, 产品名称: ${deviceInfo['product']}`,
-            };
+        const cancellation = new vscode.CancellationTokenSource();
+        const itemsChanged = new vscode.EventEmitter<vscode.QuickPickItem[]>();
+        const devices = new Map<string, DeviceInfo>();
+
+        const toPicks = (): vscode.QuickPickItem[] => {
+            let picks: vscode.QuickPickItem[] = Array.from(devices.values()).map((deviceInfo) => {
+                let record = this.history.find(ConnectionHistory.keyOf({ transport: 'adb', host: null, port: null, adbSerial: deviceInfo.id }));
+                return {
+                    label: deviceInfo.name,
+                    description: deviceInfo.state !== 'device'
+                        ? ADB_DEVICE_STATE_LABELS[deviceInfo.state] || deviceInfo.state
+                        : record ? record.label || record.deviceName : undefined,
+                    detail: `型号: ${deviceInfo.model}, 产品名称: ${deviceInfo.product || 'Unknown'}`,
+                };
+            });
+            let listed = Array.from(devices.values()).map(deviceInfo => deviceInfo.id);
+            let records: vscode.QuickPickItem[] = this.history.records
+                .filter(record => record.transport === 'adb' && Extension.isWirelessSerial(record.adbSerial) && !listed.includes(record.adbSerial))
+                .map(record => ({
+                    label: `${this.picks.recordPrefix.label}${record.adbSerial}`,
+                    description: record.label || record.deviceName || undefined,
+                    detail: `无线调试 | 最近连接: ${util.formatDateTime(record.lastConnected)}`,
+                }));
+            return picks.concat(records, this.picks.adbPair, this.picks.adbTcpip);
+        };
+
+        const loading = this.listAdbDevices(cancellation.token, (deviceInfo) => {
+            devices.set(deviceInfo.name, deviceInfo);
+            itemsChanged.fire(toPicks());
+        }).catch((e) => {
+            if (e instanceof AdbNotFoundError) {
+                vscode.window.showErrorMessage(e.message, '查看如何配置 ADB').then((choice) => {
+                    choice && vscode.env.openExternal(vscode.Uri.parse('https://segmentfault.com/a/1190000021822394'));
+                });
+            } else if (!(e instanceof AdbCancelledError)) {
+                vscode.window.showErrorMessage(`获取 ADB 设备列表失败: ${e.message}`);
+            }
         });
-        this.showQuickPickForAjServerAdbConnecting(commands).then((cmd) => awaiter(function* () {
+
+        this.showQuickPickForAjServerAdbConnecting(toPicks(), {
+            onDidChangeItems: itemsChanged.event,
+            loading,
+        }).then(async (cmd) => {
+            cancellation.cancel();
+            cancellation.dispose();
+            itemsChanged.dispose();
             if (typeof cmd !== 'string') {
                 return;
             }
+            if (cmd === this.picks.adbPair.label) {
+                return this.pairAdbWirelessDevice();
+            }
+            if (cmd === this.picks.adbTcpip.label) {
+                return this.switchAdbDeviceToTcpip(Array.from(devices.values()));
+            }
+            if (cmd.startsWith(this.picks.recordPrefix.label)) {
+                return this.connectWirelessAdbDevice(picker.operations.removeOperation(cmd));
+            }
             let dev = devices.get(cmd);
             if (!dev) {
                 return;
             }
-            let ports = [ {
-                src: yield this.findAvailPorts(),
-                dst: Device.defaultClientPort,
-            }, {
-                src: yield this.findAvailPorts(),
-                dst: Device.defaultAdbServerPort,
-            } ];
-
-            try {
-                logDebug(`adb device id: ${dev.id}`);
-                ports.forEach((port) => {
-                    logDebug(`got an adb source port: ${port.src}`);
-                    this.adb.execOrThrow([ '-s', dev.id, 'forward', 'tcp:' + port.src, 'tcp:' + port.dst ]);
-                });
-
-                let idTimeout = setTimeout(() => this.onAdbDeviceConnectTimeout(dev), 5e3);
-
-                this.client.connectTo(IP_LOOP_BACK, ports[0].src, CONNECTION_TYPE_SERVER_ADB, dev.id)
-                    .then(() => clearTimeout(idTimeout));
-            } catch (e) {
-                vscode.window.showErrorMessage(e.toString());
-                return null;
+            if (dev.state === 'unauthorized') {
+                vscode.window.showErrorMessage(new AdbDeviceUnauthorizedError(dev.id).message);
+                return;
             }
-        }.bind(this)));
-    }
-
-    private listAdbDevices(): Map<string, DeviceInfo> {
-        let res: SpawnSyncReturns<Buffer> = this.adb.exec([ 'devices', '-l' ]);
-        if (res.pid === 0) {
-            vscode.window.showErrorMessage('ADB 可能未安装或未被正确配置', '查看如何配置 ADB').then((choice) => {
-                choice && vscode.env.openExternal(vscode.Uri.parse('https://segmentfault.com/a/1190000021822394'));
-            });
-            return null;
-        }
-        let map = new Map<string, DeviceInfo>();
-        res.stdout.toString().split('\r\n').forEach((dev) => {
-            let dev_info = this.matchDevice(dev);
-            if (dev_info !== null) {
-                map.set(dev_info.name, dev_info);
+            if (dev.state !== 'device') {
+                vscode.window.showErrorMessage(new AdbDeviceOfflineError(dev.id).message);
+                return;
             }
+            return this.connectToAdbServer(dev.id);
         });
-        logDebug('devices: ', map);
-        return map;
     }
 
-    findAvailPorts() {
+    /**
+     * Forwards the ports of an ADB device and connects to AutoJs6, hinting at server mode if it does not answer.
+     */
+    private async connectToAdbServer(adbDeviceId: string) {
+        if (connectedServerAdb.has(adbDeviceId)) {
+            vscode.window.showWarningMessage(`服务端设备 ${adbDeviceId} 已建立连接 (ADB), 无需重复连接`);
+            return;
+        }
+        // Whichever comes first of the timeout and the failure hints at server mode, the other one is only logged
+        let isHinted = false;
+        let hint = (failure?: Error) => {
+            if (!isHinted) {
+                isHinted = true;
+                this.onAdbDeviceConnectTimeout(adbDeviceId, failure).catch(e => logDebug('failed to query server mode: ', e));
+            }
+        };
+        let idTimeout = setTimeout(() => hint(), 5e3);
+
+        // Relayed to the host window in a guest window
+        this.broker.connectToAdb(adbDeviceId).then(() => clearTimeout(idTimeout), (e) => {
+            clearTimeout(idTimeout);
+            logDebug(`failed to connect to ${adbDeviceId}: `, e);
+            if (e instanceof AdbError) {
+                vscode.window.showErrorMessage(e.message);
+                return;
+            }
+            // Server mode being off is the usual cause, as the forward is then closed right away.
+            hint(e);
+        });
+    }
+
+    /**
+     * Forwards the ports of an ADB device and connects to AutoJs6, removing the forwards again on failure.
+     * Runs in the broker host window, which owns the forwards as it owns the connection.
+     */
+    private async connectToAdb(adbDeviceId: string) {
+        try {
+            let port = await this.forwardAdbPorts(adbDeviceId);
+            await this.client.connectTo(IP_LOOP_BACK, port, CONNECTION_TYPE_SERVER_ADB, adbDeviceId);
+        } catch (e) {
+            this.removeAdbForwards(adbDeviceId);
+            throw e;
+        }
+    }
+
+    /**
+     * Android 11+ wireless debugging: "adb pair" with the address and code of the pairing dialog,
+     * then "adb connect" to the address shown on the wireless debugging page.
+     */
+    private async pairAdbWirelessDevice() {
+        let pairingAddress = await Extension.inputAdbAddress('输入设备 "无线调试" > "使用配对码配对设备" 中显示的 IP 地址和端口');
+        if (pairingAddress === undefined) {
+            return;
+        }
+        let code = await vscode.window.showInputBox({
+            prompt: `输入 ${pairingAddress} 的 WLAN 配对码`,
+            placeHolder: '6 位数字',
+            ignoreFocusOut: true,
+            validateInput: value => /^\d{6}$/.test(value.trim()) ? null : '配对码应为 6 位数字',
+        });
+        if (code === undefined) {
+            return;
+        }
+        try {
+            let message = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `正在与 ${pairingAddress} 配对...`,
+            }, () => this.adb.pair(pairingAddress, code.trim(), { timeout: ADB_WIRELESS_TIMEOUT }));
+            logDebug(message);
+        } catch (e) {
+            vscode.window.showErrorMessage(`无线调试配对失败: ${e.message}`);
+            return;
+        }
+        let address = await Extension.inputAdbAddress('配对成功, 输入设备 "无线调试" 页面显示的 IP 地址和端口 (与配对端口不同)');
+        if (address !== undefined) {
+            await this.connectWirelessAdbDevice(address);
+        }
+    }
+
+    /**
+     * Legacy wireless debugging: restarts adbd of a USB device in TCP mode, then connects to its WLAN address.
+     */
+    private async switchAdbDeviceToTcpip(candidates: DeviceInfo[]) {
+        let usbDevices = candidates.filter(o => o.state === 'device' && !Extension.isWirelessSerial(o.id));
+        if (usbDevices.length === 0) {
+            vscode.window.showErrorMessage('未发现通过 USB 连接的设备');
+            return;
+        }
+        let device = usbDevices.length === 1 ? usbDevices[0] : (await vscode.window.showQuickPick(
+            usbDevices.map(o => ({ label: o.name, device: o })),
+            { placeHolder: '选择需要切换为无线调试的设备' },
+        ))?.device;
+        if (device === undefined) {
+            return;
+        }
+        try {
+            let address = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `正在将 ${device.name} 切换为无线调试...`,
+            }, async () => {
+                let ip = await this.queryAdbDeviceWlanAddress(device.id);
+                if (ip === null) {
+                    throw new AdbError('无法获取设备的 WLAN IP 地址, 请确认设备已连接至 WLAN');
+                }
+                logDebug(await this.adb.tcpip(device.id, ADB_TCPIP_PORT));
+                // adbd restarts before listening on the port
+                await new Promise(resolve => setTimeout(resolve, 2e3));
+                return `${ip}:${ADB_TCPIP_PORT}`;
+            });
+            await this.connectWirelessAdbDevice(address);
+        } catch (e) {
+            vscode.window.showErrorMessage(`切换无线调试失败: ${e.message}`);
+        }
+    }
+
+    private async connectWirelessAdbDevice(address: string) {
+        try {
+            let message = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `正在通过无线调试连接至 ${address}...`,
+            }, () => this.adb.connectDevice(address, { timeout: ADB_WIRELESS_TIMEOUT }));
+            logDebug(message);
+        } catch (e) {
+            vscode.window.showErrorMessage(`无法通过无线调试连接至 ${address}: ${e.message}`);
+            return;
+        }
+        await this.connectToAdbServer(address);
+    }
+
+    private async queryAdbDeviceWlanAddress(adbDeviceId: string): Promise<string> {
+        let output = (await this.adb.shell(adbDeviceId, 'ip -f inet addr show wlan0')).toString();
+        let matched = output.match(/inet (\d+\.\d+\.\d+\.\d+)/);
+        return matched ? matched[1] : null;
+    }
+
+    private static async inputAdbAddress(prompt: string): Promise<string | undefined> {
+        let value = await vscode.window.showInputBox({
+            prompt,
+            placeHolder: '如 192.168.1.5:37215',
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                let address = util.parseHostPort(value);
+                return address !== null && address.port > 0 && address.port < 65536 ? null : '需输入 IP 地址和端口, 如 192.168.1.5:37215';
+            },
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        let address = util.parseHostPort(value);
+        return util.formatHostPort(address.host, address.port);
+    }
+
+    /**
+     * Serials of devices connected through wireless debugging, e.g. "192.168.1.5:5555" or "adb-XXXX._adb-tls-connect._tcp".
+     */
+    private static isWirelessSerial(serial: string) {
+        return /:\d+$/.test(serial) || serial.includes('._adb-tls-connect.');
+    }
+
+    /**
+     * Forwards fresh local ports to the AutoJs6 ports of an ADB device and resolves with the client port.
+     */
+    private async forwardAdbPorts(adbDeviceId: string): Promise<number> {
+        // Forwards left by a former connection (e.g. before reconnecting) lead nowhere anymore
+        await this.removeAdbForwards(adbDeviceId);
+
+        let ports = [ {
+            src: await this.findAvailPorts(),
+            dst: Device.defaultClientPort,
+        }, {
+            src: await this.findAvailPorts(),
+            dst: Device.defaultAdbServerPort,
+        } ];
+
+        logDebug(`adb device id: ${adbDeviceId}`);
+        for (let port of ports) {
+            logDebug(`got an adb source port: ${port.src}`);
+            await this.adb.forward(adbDeviceId, port.src, port.dst);
+            this.adbForwards.set(adbDeviceId, (this.adbForwards.get(adbDeviceId) || []).concat(port.src));
+        }
+        return ports[0].src;
+    }
+
+    /**
+     * Removes the forwards created for an ADB device. Failures are only logged,
+     * as the forwards of an unplugged device are gone already.
+     */
+    private async removeAdbForwards(adbDeviceId: string) {
+        let ports = this.adbForwards.get(adbDeviceId) || [];
+        this.adbForwards.delete(adbDeviceId);
+        await Promise.all(ports.map((port) => {
+            logDebug(`removing adb forward tcp:${port} of ${adbDeviceId}`);
+            return this.adb.removeForward(adbDeviceId, port).catch(e => logDebug(`failed to remove adb forward tcp:${port}: `, e));
+        }));
+    }
+
+    private removeAllAdbForwards() {
+        return Promise.all(Array.from(this.adbForwards.keys()).map(adbDeviceId => this.removeAdbForwards(adbDeviceId)));
+    }
+
+    /**
+     * Removes forwards to the AutoJs6 ports left by former sessions, e.g. after VSCode crashed.
+     * Runs when this window becomes the broker host, before it creates forwards of its own.
+     */
+    private async reconcileAdbForwards() {
+        let remotes = [ Device.defaultClientPort, Device.defaultAdbServerPort ].map(port => `tcp:${port}`);
+        try {
+            let stale = (await this.adb.listForwards()).filter((forward) => {
+                return remotes.includes(forward.remote) && !(this.adbForwards.get(forward.serial) || []).some(port => forward.local === `tcp:${port}`);
+            });
+            await Promise.all(stale.map((forward) => {
+                logDebug(`removing stale adb forward ${forward.serial} ${forward.local} ${forward.remote}`);
+                return this.adb.removeForward(forward.serial, Number(forward.local.replace('tcp:', '')));
+            }));
+        } catch (e) {
+            logDebug('failed to reconcile adb forwards: ', e);
+        }
+    }
+
+    /**
+     * Lists the ADB devices and queries them in parallel, reporting each one as soon as it is described.
+     * Resolves with the number of devices.
+     */
+    private async listAdbDevices(token: vscode.CancellationToken, onDevice: (deviceInfo: DeviceInfo) => void): Promise<number> {
+        let entries = await this.adb.devices({ token });
+        logDebug('devices: ', entries);
+        await Promise.all(entries.map(entry => this.describeAdbDevice(entry, token).then(onDevice)));
+        return entries.length;
+    }
+
+    findAvailPorts() {
         let findPorts = function () {
             class Err extends Error {
                 constructor(o: string) {
@@ -887,127 +1742,322 @@ export class Extension {
         return (this.findAvailPorts = findPorts.call(this))();
     }
 
-    onAdbDeviceConnectTimeout(device: DeviceInfo) {
-        let res = this.adb.execOrThrow([
-            '-s', device.id, 'shell', 'content', 'query',
-            '--uri', 'content://org.autojs.autojs.debug.provider/debug-server',
-        ]);
-        let stdout = res.stdout.toString();
-        let stderr = res.stderr.toString();
+    /**
+     * Hints at server mode when AutoJs6 does not answer, or reports the failure if server mode is on anyway.
+     */
+    async onAdbDeviceConnectTimeout(adbDeviceId: string, failure?: Error) {
+        let isServerModeOn = await this.queryAdbServerMode(adbDeviceId);
         let errEnsureServerModeOn = '请确认 AutoJs6 侧拉菜单已开启 "服务端模式 (Server mode)"';
+        let enableOverAdb = '通过 ADB 开启';
+
+        if (isServerModeOn === true) {
+            failure && vscode.window.showErrorMessage(`无法连接至设备 ${adbDeviceId} 上的 AutoJs6: ${failure.message}`);
+            return;
+        }
+        let shown = isServerModeOn === null
+            ? vscode.window.showWarningMessage(errEnsureServerModeOn, enableOverAdb)
+            : vscode.window.showErrorMessage(errEnsureServerModeOn, enableOverAdb);
+        shown.then((choice) => {
+            choice && this.enableServerModeOn(adbDeviceId);
+        });
+    }
 
-        logDebug('query result: stdout = %s, stderr = %s, result = ', stdout, stderr, res);
+    /**
+     * Shows a screenshot of a device, which can be saved into the project or refreshed periodically (live view).
+     */
+    async captureScreen() {
+        let devices = this.getTargetDevices();
+        if (devices.length === 0) {
+            vscode.window.showErrorMessage('未发现已连接的设备');
+            return;
+        }
+        let device = devices.length === 1 ? devices[0] : (await vscode.window.showQuickPick(devices.map(o => ({
+            label: o.displayName,
+            description: DevicesTreeProvider.addressOf(o),
+            device: o,
+        })), { placeHolder: '选择需要截取屏幕的设备' }))?.device;
+        if (device !== undefined) {
+            ScreenPanel.show(this.client, device, () => this.captureScreenOf(device));
+        }
+    }
 
-        if ((stdout + stderr).includes('Could not find provider')) {
-            vscode.window.showWarningMessage(errEnsureServerModeOn);
-        } else {
-            const matched = stdout.match(/state=(\d+)/);
-            if (matched === null || parseInt(matched[1]) !== 2) {
-                vscode.window.showErrorMessage(errEnsureServerModeOn);
+    /**
+     * Devices connected over ADB are captured by "screencap", which also works with AutoJs6 versions
+     * lacking the "screen_capture" capability; LAN devices are asked through the AutoJs6 protocol.
+     */
+    private async captureScreenOf(device: Device): Promise<Buffer> {
+        if (device.connectionType === CONNECTION_TYPE_SERVER_ADB && device.adbDeviceId) {
+            let png = await this.adb.execOut(device.adbDeviceId, 'screencap -p', { timeout: SCREEN_CAPTURE_TIMEOUT });
+            if (png.length === 0) {
+                throw new AdbError('screencap 未返回任何数据');
             }
+            return png;
+        }
+        let ack = await device.sendCommand('captureScreen', { format: 'png' }, SCREEN_CAPTURE_TIMEOUT);
+        if (typeof ack?.result?.png !== 'string') {
+            throw new Error('设备未返回截图数据');
         }
+        return Buffer.from(ack.result.png, 'base64');
     }
 
-    connect() {
-        const prefixRecord = `[ ${picker.operations.record} ] - `;
-        let ipAddressRecords = this.storage.get(this.storageKey, []);
+    /**
+     * Starts AutoJs6 on an ADB device and turns its server mode on, then connects to it.
+     */
+    async enableServerModeOverAdb() {
+        let entries: AdbDeviceEntry[];
+        try {
+            entries = (await this.adb.devices()).filter(entry => entry.state === 'device');
+        } catch (e) {
+            vscode.window.showErrorMessage(`获取 ADB 设备列表失败: ${e.message}`);
+            return;
+        }
+        if (entries.length === 0) {
+            vscode.window.showErrorMessage('未发现通过 ADB 连接的设备');
+            return;
+        }
+        let entry = entries.length === 1 ? entries[0] : (await vscode.window.showQuickPick(entries.map(o => ({
+            label: o.serial,
+            description: o.properties.model,
+            entry: o,
+        })), { placeHolder: '选择需要开启 AutoJs6 服务端模式的设备' }))?.entry;
+        if (entry !== undefined) {
+            await this.enableServerModeOn(entry.serial);
+        }
+    }
+
+    /**
+     * Checks the installed AutoJs6 and launches it, reporting the outcome of every step.
+     * AutoJs6 offers no way to turn server mode on over ADB, so unless it is on already, the user is asked to do so.
+     */
+    private async enableServerModeOn(adbDeviceId: string) {
+        let report: string[] = [];
+        let outcome = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `正在开启 ${adbDeviceId} 的 AutoJs6 服务端模式`,
+        }, async (progress): Promise<'enabled' | 'manual' | 'failed'> => {
+            let step = (message: string) => {
+                progress.report({ message });
+                report.push(message);
+                logDebug(`[${adbDeviceId}] ${message}`);
+            };
+            try {
+                let dump = (await this.adb.shell(adbDeviceId, `dumpsys package ${AUTOJS6_PACKAGE_NAME}`)).toString();
+                let versionCode = dump.match(/versionCode=(\d+)/);
+                if (versionCode === null) {
+                    step('设备未安装 AutoJs6');
+                    return 'failed';
+                }
+                let versionName = dump.match(/versionName=(\S+)/)?.[1] || 'Unknown';
+                if (parseInt(versionCode[1]) < REQUIRED_AUTOJS6_VERSION_CODE) {
+                    step(`已安装 AutoJs6 ${versionName}, 低于 ${REQUIRED_AUTOJS6_VERSION_NAME}, 可能无法通过 ADB 开启服务端模式`);
+                } else {
+                    step(`已安装 AutoJs6 ${versionName}`);
+                }
 
-        let isUpdated = false;
+                let launched = (await this.adb.shell(adbDeviceId, `monkey -p ${AUTOJS6_PACKAGE_NAME} -c android.intent.category.LAUNCHER 1`)).toString();
+                if (!launched.includes('Events injected: 1')) {
+                    step(`启动 AutoJs6 失败: ${launched.trim().split('\n').pop()}`);
+                    return 'failed';
+                }
+                step('已启动 AutoJs6');
 
-        for (let i = 0; i < ipAddressRecords.length; i += 1) {
-            let data = ipAddressRecords[i];
-            let [ ip ] = data.split('|');
-            ip = ip.replace(prefixRecord, '');
-            if (storageIpAddressBlacklist.includes(ip)) {
-                ipAddressRecords.splice(i--, 1);
-                isUpdated = true;
+                if (await this.queryAdbServerMode(adbDeviceId)) {
+                    step('服务端模式已处于开启状态');
+                    return 'enabled';
+                }
+                return 'manual';
+            } catch (e) {
+                step(`ADB 命令执行失败: ${e.message}`);
+                return 'failed';
             }
+        });
+
+        if (outcome === 'enabled') {
+            vscode.window.showInformationMessage(`AutoJs6 服务端模式已开启, 正在重新连接: ${adbDeviceId}`);
+            await this.connectToAdbServer(adbDeviceId);
+        } else if (outcome === 'manual') {
+            const reconnect = '已开启, 重新连接';
+            vscode.window.showInformationMessage('AutoJs6 已启动, 请在侧拉菜单中开启 "服务端模式 (Server mode)"', reconnect).then((choice) => {
+                choice && this.connectToAdbServer(adbDeviceId);
+            });
+        } else {
+            vscode.window.showErrorMessage('无法通过 ADB 开启 AutoJs6 服务端模式', {
+                detail: report.concat('请在 AutoJs6 侧拉菜单中手动开启 "服务端模式"').map(s => `- ${s}`).join('\n'),
+                modal: true,
+            });
         }
+    }
 
-        if (isUpdated) {
-            this.storage.update(this.storageKey, ipAddressRecords);
+    /**
+     * Asks the debug-server content provider of AutoJs6 whether server mode is on.
+     * Resolves with null when the provider is missing, i.e. AutoJs6 is not installed or too old.
+     */
+    private async queryAdbServerMode(adbDeviceId: string): Promise<boolean | null> {
+        let output = (await this.adb.shell(adbDeviceId, `content query --uri ${AUTOJS6_DEBUG_SERVER_URI}`)).toString();
+
+        logDebug('query result: %s', output);
+
+        if (output.includes('Could not find provider')) {
+            return null;
         }
+        const matched = output.match(/state=(\d+)/);
+        return matched !== null && parseInt(matched[1]) === 2;
+    }
 
-        ipAddressRecords = ipAddressRecords.map((data: string) => {
-            let [ ip, ts ] = data.split('|');
-            let o: vscode.QuickPickItem = {
-                label: ip.startsWith(prefixRecord) ? ip : `${prefixRecord}${ip}`,
-            };
-            if (ts && ts.match(/^\d+$/) !== null) {
-                let date = new Date(Number(ts));
+    /**
+     * Connects to a device reported by the ADB watcher, provided that AutoJs6 runs in server mode there.
+     */
+    private async autoConnectAdbDevice(adbDeviceId: string) {
+        if (connectedServerAdb.has(adbDeviceId)) {
+            return;
+        }
+        try {
+            if (!await this.queryAdbServerMode(adbDeviceId)) {
+                logDebug(`AutoJs6 server mode is off on ${adbDeviceId}, skip auto-connecting`);
+                return;
+            }
+            await this.connectToAdb(adbDeviceId);
+        } catch (e) {
+            logDebug(`failed to auto-connect to ${adbDeviceId}: `, e);
+        }
+    }
 
-                let yyyy = date.getFullYear();
-                let MM = String((date.getMonth() + 1)).padStart(2, '0');
-                let dd = String(date.getDate()).padStart(2, '0');
-                let HH = String(date.getHours()).padStart(2, '0');
-                let mm = String(date.getMinutes()).padStart(2, '0');
-                let ss = String(date.getSeconds()).padStart(2, '0');
+    connect() {
+        const ways: ConnectionWay[] = [ 'ajClientLan', 'ajClientQr', 'ajServerLan', 'ajServerAdb' ];
 
-                let dateString = `${yyyy}/${MM}/${dd} ${HH}:${mm}:${ss}`;
-                o.detail = `最近连接: ${dateString}`;
+        this.showQuickPickForConnectionHomepage(ways.map(way => this.picks[way])).then((cmd) => {
+            let way = ways.find(way => this.picks[way].label === cmd);
+            if (way !== undefined) {
+                this.connectVia(way);
             }
-            return o;
         });
-        const commands = [
-            this.picks.ajClientLan,
-            // this.picks.ajClientQr,
-            this.picks.ajServerLan,
-            this.picks.ajServerAdb,
-        ];
+    }
+
+    connectVia(way: ConnectionWay) {
+        switch (way) {
+            case 'ajClientLan':
+                this.connectToLocalHint();
+                break;
+            case 'ajClientQr':
+                this.showLocalQrCode();
+                break;
+            case 'ajServerLan':
+                this.showServerLanRecords();
+                break;
+            case 'ajServerAdb':
+                this.connectByAdb();
+                break;
+            default: // Nothing to do so far.
+        }
+    }
+
+    private showServerLanRecords() {
+        type RecordPick = vscode.QuickPickItem & { key?: string };
+
+        const discovery = new Discovery(() => util.getBasicNetworkInterfaces());
+        const itemsChanged = new vscode.EventEmitter<RecordPick[]>();
+
+        const toPicks = (): RecordPick[] => {
+            let discovered: RecordPick[] = discovery.servers.map((server) => {
+                let address = server.port && server.port !== Device.defaultClientPort ? `${server.host}:${server.port}` : server.host;
+                return {
+                    label: `[ ${picker.operations.discovered} ] - ${address}`,
+                    description: this.directory.aliasOf(server.deviceId) || server.deviceName,
+                    detail: [
+                        `AutoJs6 ${server.appVersion || ''}`.trim(),
+                        connectedServerLan.has(server.host) ? '已连接' : '局域网自动发现',
+                    ].join(' | '),
+                };
+            });
+            let picks: RecordPick[] = this.getLanRecords().map((record) => {
+                let name = record.label || record.deviceName;
+                return {
+                    label: `${this.picks.recordPrefix.label}${Extension.addressOf(record)}`,
+                    description: [ record.pinned ? '$(pinned)' : '', name || '' ].filter(Boolean).join(' '),
+                    detail: [
+                        record.lastConnected > 0 ? `最近连接: ${util.formatDateTime(record.lastConnected)}` : '',
+                        `连接次数: ${record.connectCount}`,
+                    ].filter(Boolean).join(' | '),
+                    buttons: [ record.pinned ? pickButtons.unpin : pickButtons.pin, pickButtons.rename, pickButtons.remove ],
+                    key: ConnectionHistory.keyOf(record),
+                };
+            });
+            return discovered.concat(picks.length > 0 ? picks.concat(this.picks.recordClear) : picks);
+        };
+
+        const onRecordButton = async (item: RecordPick, button: QuickInputButton): Promise<RecordPick[]> => {
+            let record = this.history.find(item.key);
+            if (!record) {
+                return toPicks();
+            }
+            if (button === pickButtons.pin || button === pickButtons.unpin) {
+                await this.history.setPinned(item.key, button === pickButtons.pin);
+            } else if (button === pickButtons.remove) {
+                await this.history.remove(item.key);
+            } else if (button === pickButtons.rename) {
+                // The input box replaces the quick pick, which is shown again afterwards.
+                let label = await vscode.window.showInputBox({
+                    prompt: `重命名 IP 地址记录 ${record.host} (留空则使用设备名称)`,
+                    value: record.label || record.deviceName || '',
+                });
+                if (label !== undefined) {
+                    await this.history.rename(item.key, label.trim());
+                    this.devicesView.refresh();
+                }
+                this.showServerLanRecords();
+                return null;
+            }
+            this.devicesView.refresh();
+            return toPicks();
+        };
+
+        discovery.on('change', () => itemsChanged.fire(toPicks()));
+        discovery.start().catch(e => logDebug('LAN discovery unavailable: ', e));
 
-        this.showQuickPickForConnectionHomepage(commands).then((cmd) => {
+        this.showQuickPickForAjServerLanConnecting(toPicks(), {
+            onDidTriggerItemButton: onRecordButton,
+            onDidChangeItems: itemsChanged.event,
+        }).then((cmd) => {
+            discovery.stop();
+            itemsChanged.dispose();
             switch (cmd) {
-                case undefined:
-                    break;
-                case this.picks.ajClientLan.label:
-                    this.connectToLocalHint();
-                    break;
-                case this.picks.ajClientQr.label:
-                    Extension.showLocalQrCode();
-                    break;
-                case this.picks.ajServerLan.label:
-                    const records = ipAddressRecords.concat(ipAddressRecords.length > 0 ? this.picks.recordClear : []);
-                    this.showQuickPickForAjServerLanConnecting(records).then((cmd) => {
-                        switch (cmd) {
-                            case this.picks.recordClear.label:
-                                this.showAlternativePick(`确认清除所有已保存的记录吗`).then((s) => {
-                                    if (s === STRING_YES) {
-                                        let total = this.storage.get(this.storageKey, []).length;
-                                        this.storage.update(this.storageKey, []);
-                                        vscode.window.showInformationMessage(`清理完成, 共计 ${total} 项`);
-                                    }
-                                });
-                                break;
-                            default:
-                                this.connectToServerLan(cmd);
+                case this.picks.recordClear.label:
+                    this.showAlternativePick(`确认清除所有已保存的记录吗`).then((s) => {
+                        if (s === STRING_YES) {
+                            this.history.clear('lan').then((total) => {
+                                this.devicesView.refresh();
+                                vscode.window.showInformationMessage(`清理完成, 共计 ${total} 项`);
+                            });
                         }
                     });
                     break;
-                case this.picks.ajServerAdb.label:
-                    this.connectByAdb();
-                    break;
-                default: // Nothing to do so far.
+                default:
+                    this.connectToServerLan(cmd);
             }
         });
     }
 
     connectToServerLan(cmd: any) {
         if (typeof cmd === 'string') {
-            let port = Device.defaultClientPort;
-            let host = picker.operations.removeOperation(cmd.trim());
-            if (host.match(regexIpAddress) !== null) {
-                if (host.includes(':')) {
-                    let split = host.split(':');
-                    let portInput = split[1];
-                    if (portInput !== String(port)) {
-                        vscode.window.showWarningMessage(`端口号 ${portInput} 已被忽略, 使用 ${port}`);
-                    }
-                    host = split[0];
+            let address = util.parseHostPort(picker.operations.removeOperation(cmd.trim()));
+            if (address !== null) {
+                let host = address.host;
+                let port = address.port ?? Device.defaultClientPort;
+                if (!(port > 0 && port < 65536)) {
+                    vscode.window.showErrorMessage(`连接 AutoJs6 服务端失败, 端口号 ${port} 无效`);
+                    return;
                 }
-                vscode.window.showInformationMessage(`正在连接至 AutoJs6 服务端 (${host})...`);
-                this.client.connectTo(host, port, CONNECTION_TYPE_SERVER_LAN).catch((e) => {
+                let display = util.formatHostPort(host, port === Device.defaultClientPort ? null : port);
+                vscode.window.showInformationMessage(`正在连接至 AutoJs6 服务端 (${display})...`);
+                Extension.resolveHost(host).then((resolved) => {
+                    logDebug(`resolved ${host} as ${resolved}`);
+                    return this.client.connectTo(host, port, CONNECTION_TYPE_SERVER_LAN);
+                }, (e) => {
                     logDebug(e);
-                    vscode.window.showErrorMessage(`无法连接至 AutoJs6 服务端 (${host})`, '查看解决方案').then((choice) => {
+                    vscode.window.showErrorMessage(`无法解析主机名 ${host}, 请检查名称是否正确, 或改用 IP 地址连接`);
+                }).catch((e) => {
+                    logDebug(e);
+                    vscode.window.showErrorMessage(`无法连接至 AutoJs6 服务端 (${display})`, '查看解决方案').then((choice) => {
                         if (choice) {
                             const header = 'AutoJs6 服务端连接诊断';
                             vscode.window.showInformationMessage(header, {
@@ -1035,9 +2085,12 @@ export class Extension {
                 const input = vscode.window.createQuickPick();
                 const basicNicAddresses = util.getBasicNetworkInterfaces();
                 if (basicNicAddresses.length === 1) {
-                    input.title = `当前活动 IP: ${basicNicAddresses[0].ip4}`;
+                    input.title = `当前活动 IP: ${util.addressOfInterface(basicNicAddresses[0])}`;
                 } else if (basicNicAddresses.length > 1) {
-                    input.title = `当前活动 IP: [ ${basicNicAddresses.map(o => o.ip4).join(', ')} ]`;
+                    input.title = `当前活动 IP: [ ${basicNicAddresses.map(util.addressOfInterface).join(', ')} ]`;
+                }
+                if (input.title && this.client.port !== null) {
+                    input.title += ` | 监听端口: ${this.client.port}`;
                 }
                 input.placeholder = PLACEHOLDER_INPUT_OR_SELECT_A_WAY_TO_CONNECT;
                 input.items = commands;
@@ -1114,7 +2167,10 @@ export class Extension {
                 input.placeholder = PLACEHOLDER_INPUT_OR_SELECT_A_NETWORK_INTERFACE + ` [ ${PLACEHOLDER_FETCHING_DETAILS_IN_BACKGROUND}... ]`;
                 input.items = items.map(item => {
                     let label = item.iface;
-                    let detail = item.ip4 + sep + item.mac.toLowerCase();
+                    let detail = util.addressOfInterface(item) + sep + item.mac.toLowerCase();
+                    if (item.ip4 !== undefined && item.ip6 !== undefined) {
+                        detail += sep + item.ip6;
+                    }
                     return { label, detail };
                 });
                 input.buttons = [
@@ -1185,7 +2241,15 @@ export class Extension {
         }
     }
 
-    private async showQuickPickForAjServerLanConnecting<T extends vscode.QuickPickItem>(commands: T[], options: { title?: string, placeholder?: string } = {}) {
+    private async showQuickPickForAjServerLanConnecting<T extends vscode.QuickPickItem>(commands: T[], options: {
+        title?: string,
+        placeholder?: string,
+        onDidTriggerItemButton?: (item: T, button: QuickInputButton) => Promise<T[]>,
+        /**
+         * Items updated while the pick is shown, e.g. by LAN discovery.
+         */
+        onDidChangeItems?: vscode.Event<T[]>,
+    } = {}) {
         const disposables: Disposable[] = [];
         try {
             return await new Promise<string | T | T[] | undefined | Promise<any>>((resolve) => {
@@ -1193,6 +2257,7 @@ export class Extension {
                 input.title = options.title || `连接到 AutoJs6 服务端`;
                 input.placeholder = options.placeholder || `输入或选择 AutoJs6 服务端 IP 地址, 按回车 (Enter) 键建立连接`;
                 input.items = commands;
+                input.busy = options.onDidChangeItems !== undefined;
                 input.buttons = [
                     ...[],
                     ...[],
@@ -1200,6 +2265,9 @@ export class Extension {
                     ...[ pickButtons.close ],
                 ];
 
+                if (options.onDidChangeItems) {
+                    disposables.push(options.onDidChangeItems(items => input.items = items));
+                }
                 disposables.push(
                     input.onDidAccept(() => {
                         resolve(input.value);
@@ -1208,7 +2276,7 @@ export class Extension {
                     input.onDidChangeSelection((items) => {
                         const item = items[0];
                         const pureLabel = picker.operations.removeOperation(item.label);
-                        const isConflicted = regexIpAddress.test(input.value)
+                        const isConflicted = util.parseHostPort(input.value) !== null
                             && pureLabel.includes(input.value)
                             && pureLabel !== input.value;
                         if (isConflicted) {
@@ -1232,6 +2300,13 @@ export class Extension {
                             input.hide();
                         }
                     }),
+                    input.onDidTriggerItemButton((e) => {
+                        options.onDidTriggerItemButton?.(e.item as T, e.button).then((items) => {
+                            if (items) {
+                                input.items = items;
+                            }
+                        });
+                    }),
                 );
                 input.show();
             });
@@ -1240,7 +2315,16 @@ export class Extension {
         }
     }
 
-    private async showQuickPickForAjServerAdbConnecting<T extends vscode.QuickPickItem>(commands: T[]) {
+    private async showQuickPickForAjServerAdbConnecting<T extends vscode.QuickPickItem>(commands: T[], options: {
+        /**
+         * Items added while the devices are being queried.
+         */
+        onDidChangeItems?: vscode.Event<T[]>,
+        /**
+         * Settles once all devices are listed; the pick stays busy until then and closes if still empty.
+         */
+        loading?: Promise<unknown>,
+    } = {}) {
         const disposables: Disposable[] = [];
         try {
             return await new Promise<string | T | T[] | undefined>((resolve) => {
@@ -1248,6 +2332,20 @@ export class Extension {
                 input.title = `连接到 AutoJs6 服务端`;
                 input.placeholder = `输入或选择需要连接的设备, 按回车 (Enter) 键建立连接`;
                 input.items = commands;
+                if (options.onDidChangeItems) {
+                    disposables.push(options.onDidChangeItems(items => input.items = items));
+                }
+                if (options.loading) {
+                    let isHidden = false;
+                    disposables.push(input.onDidHide(() => isHidden = true));
+                    input.busy = true;
+                    options.loading.finally(() => {
+                        if (!isHidden) {
+                            input.busy = false;
+                            input.items.length === 0 && input.hide();
+                        }
+                    });
+                }
                 input.buttons = [
                     ...[], // ...[QuickInputButtons.Back],
                     ...[],
@@ -1299,12 +2397,20 @@ export class Extension {
         }
     }
 
-    viewDocument() {
-        vscode.env.openExternal(vscode.Uri.parse('https://docs.autojs6.com/'));
+    viewDocument(browser: 'system' | 'vscode' = 'system') {
+        let uri = vscode.Uri.parse(DOCUMENT_URL);
+        if (browser === 'vscode') {
+            // Simple Browser is built into VSCode since 1.55
+            vscode.commands.executeCommand('simpleBrowser.show', DOCUMENT_URL)
+                .then(undefined, () => vscode.env.openExternal(uri));
+            return;
+        }
+        vscode.env.openExternal(uri);
     }
 
     disconnectAll() {
         this.client.disconnect();
+        this.removeAllAdbForwards();
         vscode.window.showInformationMessage('AutoJs6 已断开所有连接');
         // vscode.window.showInformationMessage('All connections to AutoJs6 disconnected');
     }
@@ -1327,23 +2433,30 @@ export class Extension {
     }
 
     stop() {
-        this.client.sendCommand('stop', {
+        return this.client.sendCommand('stop', {
             id: vscode.window.activeTextEditor?.document.fileName,
-        });
+        }, this.getTargetDevices());
     }
 
     stopAll() {
-        this.client.sendCommand('stopAll');
+        return this.client.sendCommand('stopAll', {}, this.getTargetDevices());
     }
 
     rerunProject(url?: string) {
-        this.stopAll();
-        setTimeout(() => this.runProject(url), 480);
+        return this.stopAll().then(Extension.afterStopped).then(() => this.runProject(url));
     }
 
     rerun(url?: string) {
-        this.stop();
-        this.run(url);
+        return this.stop().then(Extension.afterStopped).then(() => this.run(url));
+    }
+
+    /**
+     * Resolves once scripts can be expected to have stopped. Devices without the "ack" capability
+     * cannot confirm it, so they are given the delay used before acknowledgements existed.
+     */
+    private static afterStopped(results: PromiseSettledResult<AckData>[]): Promise<void> {
+        let isUnconfirmed = results.some(result => result.status === 'fulfilled' && result.value.unconfirmed);
+        return isUnconfirmed ? new Promise(resolve => setTimeout(resolve, UNCONFIRMED_STOP_DELAY)) : Promise.resolve();
     }
 
     runOnDevice() {
@@ -1351,7 +2464,7 @@ export class Extension {
     }
 
     save() {
-        this.saveTo(this.client.devices);
+        this.saveTo(this.getTargetDevices());
     }
 
     saveToDevice() {
@@ -1360,13 +2473,13 @@ export class Extension {
 
     saveTo(devices: Device[]) {
         let editor = vscode.window.activeTextEditor;
-        if (editor) {
-            devices.forEach((device) => {
-                device.sendCommand('save', {
-                    id: editor.document.fileName,
-                    name: this.getEditorFileName(editor),
-                    script: editor.document.getText(),
-                });
+        if (editor && devices.length > 0) {
+            return this.client.sendCommand('save', {
+                id: editor.document.fileName,
+                name: this.getEditorFileName(editor),
+                script: editor.document.getText(),
+            }, devices).then((results) => {
+                this.reportCommandResults(devices, results, '文件保存');
             });
         }
     }
@@ -1435,16 +2548,339 @@ export class Extension {
     }
 
     runProject(url?: string) {
-        this.sendProjectCommand('run_project', undefined);
+        this.sendProjectCommand('run_project', undefined, this.getTargetDevices());
     }
 
     saveProject(url?: string) {
-        this.sendProjectCommand('save_project', undefined);
+        this.sendProjectCommand('save_project', undefined, this.getTargetDevices());
     }
 
     commandsHierarchy() {
         this.showCommandHierarchy();
     }
+
+    disconnectFrom(scope: DeviceScope) {
+        if (scope === 'all') {
+            return this.disconnectAll();
+        }
+        this.selectDevices(devices => devices.forEach(device => device.disconnect()));
+    }
+
+    runScriptOn(scope: DeviceScope) {
+        this.withScopedDevices(scope, devices => this.runFileOn(devices));
+    }
+
+    runProjectOn(scope: DeviceScope) {
+        this.withScopedDevices(scope, devices => this.sendProjectCommand('run_project', undefined, devices));
+    }
+
+    saveScriptOn(scope: DeviceScope) {
+        this.withScopedDevices(scope, devices => this.saveTo(devices));
+    }
+
+    saveProjectOn(scope: DeviceScope) {
+        this.withScopedDevices(scope, devices => this.sendProjectCommand('save_project', undefined, devices));
+    }
+
+    stopScriptOn(scope: DeviceScope) {
+        this.withScopedDevices(scope, devices => this.client.sendCommand('stop', {
+            id: vscode.window.activeTextEditor?.document.fileName,
+        }, devices));
+    }
+
+    stopAllScriptsOn(scope: DeviceScope) {
+        this.withScopedDevices(scope, devices => this.client.sendCommand('stopAll', {}, devices));
+    }
+
+    /**
+     * Runs the action on all connected devices, or on the devices chosen from a quick pick.
+     */
+    private withScopedDevices(scope: DeviceScope, action: (devices: Device[]) => void) {
+        if (scope === 'specified') {
+            this.selectDevices(action);
+            return;
+        }
+        if (!this.client.hasDevices()) {
+            vscode.window.showErrorMessage('未发现已连接的设备');
+            return;
+        }
+        action(this.client.devices.slice());
+    }
+
+    showPairingCode() {
+        const copyToken = '复制 HTTP 令牌';
+        const renewCode = '重新生成配对码';
+        vscode.window.showInformationMessage(`AutoJs6 配对码: ${this.pairing.pairingCode}`, {
+            modal: true,
+            detail: [
+                `AutoJs6 使用客户端模式连接至 VSCode 时需输入此配对码`,
+                `通过 HTTP 执行插件命令时需携带参数 token=${this.pairing.httpToken}`,
+                ...this.httpServer.isHttpServerStarted ? [ `HTTP 命令服务端口: ${this.httpServer.port}` ] : [],
+                ...this.client.tls ? [ `加密连接证书指纹: ${this.client.tls.fingerprint}` ] : [],
+            ].map(s => `- ${s}`).join('\n'),
+        }, copyToken, renewCode).then((choice) => {
+            if (choice === copyToken) {
+                vscode.env.clipboard.writeText(this.pairing.httpToken);
+            } else if (choice === renewCode) {
+                this.pairing.renewPairingCode();
+                this.showPairingCode();
+            }
+        });
+    }
+
+    revokeDeviceTrust() {
+        let items: vscode.QuickPickItem[] = [
+            ...this.pairing.trustedDevices.map(o => ({
+                label: o.deviceName,
+                description: o.deviceId,
+                detail: `配对时间: ${util.formatDateTime(o.pairedAt)}`,
+            })),
+            ...this.pins.pins.map(o => ({
+                label: o.deviceName,
+                description: o.deviceId,
+                detail: `证书指纹: ${o.fingerprint} | 记录时间: ${util.formatDateTime(o.pinnedAt)}`,
+            })),
+        ];
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('当前没有已配对的设备');
+            return;
+        }
+        vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: '选择需要撤销信任的设备',
+        }).then(async (items) => {
+            if (!items || items.length === 0) {
+                return;
+            }
+            for (let item of items) {
+                await this.pairing.revoke(item.description);
+                await this.pins.forget(item.description);
+                this.client.devices
+                    .filter(dev => dev.deviceId === item.description && dev.connectionType === CONNECTION_TYPE_CLIENT_LAN)
+                    .forEach(dev => dev.disconnect());
+            }
+            vscode.window.showInformationMessage(`已撤销 ${items.length} 台设备的信任`);
+        });
+    }
+
+    runOnDeviceItem(item?: DeviceItem) {
+        if (item instanceof DeviceItem) {
+            return this.runFileOn([ item.device ]);
+        }
+    }
+
+    stopOnDeviceItem(item?: DeviceItem) {
+        if (item instanceof DeviceItem) {
+            return this.client.sendCommand('stop', {
+                id: vscode.window.activeTextEditor?.document.fileName,
+            }, [ item.device ]);
+        }
+    }
+
+    stopAllOnDeviceItem(item?: DeviceItem) {
+        if (item instanceof DeviceItem) {
+            return this.client.sendCommand('stopAll', {}, [ item.device ]);
+        }
+    }
+
+    saveToDeviceItem(item?: DeviceItem) {
+        if (item instanceof DeviceItem) {
+            return this.saveTo([ item.device ]);
+        }
+    }
+
+    saveProjectToDeviceItem(item?: DeviceItem) {
+        if (item instanceof DeviceItem) {
+            return this.sendProjectCommand('save_project', undefined, [ item.device ]);
+        }
+    }
+
+    showDeviceItemLog(item?: DeviceItem) {
+        if (item instanceof DeviceItem) {
+            deviceChannel[item.device.deviceId]?.show(true);
+        }
+    }
+
+    disconnectDeviceItem(item?: DeviceItem) {
+        if (item instanceof DeviceItem && item.device.state === 'reconnecting') {
+            this.client.cancelReconnect(item.device);
+        } else if (item instanceof DeviceItem) {
+            item.device.disconnect();
+        }
+    }
+
+    connectToRecordItem(item?: RecordItem) {
+        if (item instanceof RecordItem) {
+            this.connectToServerLan(Extension.addressOf(item.record));
+        }
+    }
+
+    forgetRecordItem(item?: RecordItem) {
+        if (item instanceof RecordItem) {
+            return this.history.remove(ConnectionHistory.keyOf(item.record)).then(() => this.devicesView.refresh());
+        }
+    }
+
+    showDeviceMenu() {
+        const items: (vscode.QuickPickItem & { action: () => any })[] = [
+            { label: '$(link) 建立设备连接 (Connect)', action: () => this.connect() },
+        ];
+        if (this.client.hasDevices()) {
+            items.push(
+                { label: '$(target) 切换目标设备 (Switch Target)', action: () => this.selectTargetDevices() },
+                { label: '$(play) 运行脚本 (Run)', action: () => this.runWithoutArguments() },
+                { label: '$(close-all) 停止所有脚本 (Stop All)', action: () => this.stopAll() },
+                { label: '$(debug-disconnect) 断开所有连接 (Disconnect All)', action: () => this.disconnectAll() },
+            );
+        }
+        vscode.window.showQuickPick(items, { placeHolder: 'AutoJs6' }).then(item => item && item.action());
+    }
+
+    selectTargetDevices() {
+        let targetIds = this.context.workspaceState.get<string[]>(KEY_TARGET_DEVICES, []);
+        let targetGroups = this.context.workspaceState.get<string[]>(KEY_TARGET_GROUPS, []);
+        let items: (vscode.QuickPickItem & { deviceId?: string, groupName?: string })[] = this.client.devices.map(device => ({
+            label: device.toString(),
+            picked: targetIds.includes(device.deviceId),
+            deviceId: device.deviceId,
+        }));
+        targetIds
+            .filter(id => !this.client.devices.some(device => device.deviceId === id))
+            .forEach(id => items.push({ label: this.directory.aliasOf(id) || id, description: '未连接', picked: true, deviceId: id }));
+        this.directory.groups.forEach(group => items.push({
+            label: `$(organization) ${group.name}`,
+            description: `设备组 | ${group.deviceIds.length} 台设备`,
+            picked: targetGroups.includes(group.name),
+            groupName: group.name,
+        }));
+        if (items.length === 0) {
+            vscode.window.showErrorMessage('未发现已连接的设备');
+            return;
+        }
+        vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: '选择运行及保存命令的目标设备 (不选择任何设备则发送至全部设备)',
+        }).then((selected) => {
+            if (selected === undefined) {
+                return;
+            }
+            let ids = selected.filter(item => item.deviceId).map(item => item.deviceId);
+            let groups = selected.filter(item => item.groupName).map(item => item.groupName);
+            Promise.all([
+                this.context.workspaceState.update(KEY_TARGET_DEVICES, ids),
+                this.context.workspaceState.update(KEY_TARGET_GROUPS, groups),
+            ]).then(() => this.applyTargets());
+            if (ids.length === 0 && groups.length === 0) {
+                vscode.window.showInformationMessage('命令将发送至全部已连接设备');
+            } else {
+                vscode.window.showInformationMessage(`已选择 ${ids.length} 台目标设备及 ${groups.length} 个设备组`);
+            }
+        });
+    }
+
+    async setDeviceAlias(item?: DeviceItem) {
+        let device = item instanceof DeviceItem ? item.device : null;
+        if (device === null) {
+            if (!this.client.hasDevices()) {
+                vscode.window.showErrorMessage('未发现已连接的设备');
+                return;
+            }
+            let picked = await vscode.window.showQuickPick(this.client.devices.map(dev => ({
+                label: dev.toString(),
+                description: dev.deviceName,
+                device: dev,
+            })), { placeHolder: '选择需要设置别名的设备' });
+            if (!picked) {
+                return;
+            }
+            device = picked.device;
+        }
+        let alias = await vscode.window.showInputBox({
+            prompt: `设置设备 ${device.deviceName} 的别名 (留空则清除别名)`,
+            value: this.directory.aliasOf(device.deviceId) || '',
+        });
+        if (alias === undefined) {
+            return;
+        }
+        await this.directory.setAlias(device.deviceId, alias.trim());
+        this.client.refreshAliases();
+    }
+
+    async createDeviceGroup() {
+        let name = await vscode.window.showInputBox({
+            prompt: '输入设备组名称 (已存在的设备组将被更新)',
+            validateInput: value => value.trim() ? null : '设备组名称不能为空',
+        });
+        if (name === undefined) {
+            return;
+        }
+        name = name.trim();
+        let members = this.directory.group(name)?.deviceIds || [];
+
+        // 已连接设备, 设置过别名的设备及现有成员均可加入设备组
+        let candidates = new Map<string, string>();
+        this.client.devices.forEach(dev => candidates.set(dev.deviceId, dev.toString()));
+        Object.keys(this.directory.aliases).concat(members)
+            .filter(id => !candidates.has(id))
+            .forEach(id => candidates.set(id, this.directory.aliasOf(id) || id));
+        if (candidates.size === 0) {
+            vscode.window.showErrorMessage('未发现已连接的设备');
+            return;
+        }
+        let selected = await vscode.window.showQuickPick(Array.from(candidates).map(([ deviceId, label ]) => ({
+            label: label,
+            description: this.client.getDevice(deviceId) ? undefined : '未连接',
+            picked: members.includes(deviceId),
+            deviceId: deviceId,
+        })), { canPickMany: true, placeHolder: `选择设备组 "${name}" 的成员` });
+        if (!selected) {
+            return;
+        }
+        await this.directory.saveGroup(name, selected.map(o => o.deviceId));
+        this.applyTargets();
+        vscode.window.showInformationMessage(`设备组 "${name}" 已保存 (${selected.length} 台设备)`);
+    }
+
+    async deleteDeviceGroup() {
+        let groups = this.directory.groups;
+        if (groups.length === 0) {
+            vscode.window.showInformationMessage('当前没有设备组');
+            return;
+        }
+        let selected = await vscode.window.showQuickPick(groups.map(group => ({
+            label: group.name,
+            description: `${group.deviceIds.length} 台设备`,
+        })), { canPickMany: true, placeHolder: '选择需要删除的设备组' });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+        let names = selected.map(o => o.label);
+        for (let name of names) {
+            await this.directory.deleteGroup(name);
+        }
+        let targetGroups = this.context.workspaceState.get<string[]>(KEY_TARGET_GROUPS, []);
+        await this.context.workspaceState.update(KEY_TARGET_GROUPS, targetGroups.filter(name => !names.includes(name)));
+        this.applyTargets();
+        vscode.window.showInformationMessage(`已删除 ${names.length} 个设备组`);
+    }
+
+    authorizeHttpRequest(token: string | string[]) {
+        return !Extension.isPairingRequired() || this.pairing.verifyHttpToken(token);
+    }
+
+    private deactivate() {
+        this.adbWatcher.stop();
+        // Disposed first, see Broker.dispose()
+        this.broker.dispose();
+        if (this.broker.role === 'host') {
+            this.client.disconnect();
+        }
+        return this.removeAllAdbForwards();
+    }
+
+    private static isPairingRequired() {
+        return vscode.workspace.getConfiguration('autojs6').get<boolean>('requirePairing', true);
+    }
 }
 
 // noinspection JSUnusedGlobalSymbols
@@ -1467,24 +2903,3 @@ export function logDebug(message?: any, ...optionalParams: any[]) {
 }
 
 export type ProjectCommands = 'run_project' | 'save_project';
-
-new AJHttpServer(HTTP_SERVER_PORT)
-    .on('cmd', (cmd: keyof Extension, ...params) => {
-        logDebug(`Received cmd: ${cmd}`);
-        switch (cmd) {
-            case 'rerunProject':
-                extension.stopAll();
-                setTimeout(() => extension.run(...params), 1e3);
-                break;
-            default:
-                if (!Extension.commands.includes(cmd)) {
-                    vscode.window.showErrorMessage(`接收到未知指令 "${cmd}"`);
-                    return;
-                }
-                logDebug(`执行接收到的指令 "${cmd}"`);
-                extension[cmd]['call'](extension, ...params);
-        }
-    })
-    .on('error', (e) => {
-        logDebug(`HTTP server error: ${e}`);
-    });
\ No newline at end of file
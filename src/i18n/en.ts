@@ -1,3 +1,7 @@
 export default {
   close: "Close",
+  commandsHierarchy: "Commands Hierarchy",
+  commandsHierarchyOverview: "All Commands",
+  commandsHierarchyPlaceholder: "Type an instruction to continue, \"<\" to go back",
+  unknownInstruction: "Unknown instruction",
 };
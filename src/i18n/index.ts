@@ -17,4 +17,6 @@ const i18n = (() => {
   }
 })();
 
+export const language: AvailableLanguages = lang || "en";
+
 export default i18n;
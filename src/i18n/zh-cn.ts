@@ -1,3 +1,7 @@
 export default {
   close: "关闭",
+  commandsHierarchy: "命令层级",
+  commandsHierarchyOverview: "全部命令",
+  commandsHierarchyPlaceholder: "输入指令以继续, 输入 \"<\" 返回上一级",
+  unknownInstruction: "未知指令",
 };
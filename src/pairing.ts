@@ -0,0 +1,161 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+import { logDebug } from './extension';
+
+const KEY_SECRET = 'autojs6.pairing.secret';
+const KEY_CODE = 'autojs6.pairing.code';
+const KEY_TRUSTED_DEVICES = 'autojs6.pairing.trustedDevices';
+
+const PAIRING_CODE_LENGTH = 6;
+const MAX_FAILED_PAIRING_ATTEMPTS = 5;
+const ONE_TIME_CODE_TTL = 10 * 60e3;
+
+export interface TrustedDevice {
+    deviceId: string;
+    deviceName: string;
+    tokenHash: string;
+    pairedAt: number;
+}
+
+export interface PairingRequest {
+    deviceId: string;
+    deviceName: string;
+    pairingCode?: string;
+    pairingToken?: string;
+}
+
+export interface PairingResult {
+    accepted: boolean;
+    /**
+     * Issued on first pairing, to be stored by AutoJs6 and sent as "pairing_token" from then on.
+     */
+    pairingToken?: string;
+    reason?: string;
+}
+
+/**
+ * Pairing state of AutoJs6 devices connecting to VSCode and of HTTP command callers.
+ *
+ * The pairing code and the HTTP token belong to the workspace, whereas trusted devices are shared by all workspaces.
+ */
+export class Pairing {
+    private readonly context: vscode.ExtensionContext;
+    private failedAttempts = 0;
+    private readonly oneTimeCodes = new Map<string, number>();
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    get pairingCode(): string {
+        let code = this.context.workspaceState.get<string>(KEY_CODE);
+        if (!code) {
+            code = this.renewPairingCode();
+        }
+        return code;
+    }
+
+    get httpToken(): string {
+        let secret = this.context.workspaceState.get<string>(KEY_SECRET);
+        if (!secret) {
+            secret = this.renewHttpToken();
+        }
+        return secret;
+    }
+
+    renewPairingCode(): string {
+        let code = String(crypto.randomBytes(4).readUInt32BE(0) % 10 ** PAIRING_CODE_LENGTH).padStart(PAIRING_CODE_LENGTH, '0');
+        this.context.workspaceState.update(KEY_CODE, code);
+        this.failedAttempts = 0;
+        return code;
+    }
+
+    renewHttpToken(): string {
+        let secret = crypto.randomBytes(16).toString('hex');
+        this.context.workspaceState.update(KEY_SECRET, secret);
+        return secret;
+    }
+
+    /**
+     * Issues a code which pairs a single device, e.g. one scanning the QR code, within ten minutes.
+     */
+    issueOneTimeCode(): string {
+        let code = crypto.randomBytes(12).toString('hex');
+        this.oneTimeCodes.set(code, Date.now() + ONE_TIME_CODE_TTL);
+        return code;
+    }
+
+    revokeOneTimeCode(code: string) {
+        this.oneTimeCodes.delete(code);
+    }
+
+    get trustedDevices(): TrustedDevice[] {
+        return this.context.globalState.get<TrustedDevice[]>(KEY_TRUSTED_DEVICES, []);
+    }
+
+    isTrusted(deviceId: string) {
+        return this.trustedDevices.some(o => o.deviceId === deviceId);
+    }
+
+    verify(request: PairingRequest): PairingResult {
+        let trusted = this.trustedDevices.find(o => o.deviceId === request.deviceId);
+        if (trusted && request.pairingToken && safeEquals(trusted.tokenHash, hash(request.pairingToken))) {
+            return { accepted: true };
+        }
+        if (request.pairingCode) {
+            if (this.consumeOneTimeCode(request.pairingCode) || safeEquals(request.pairingCode, this.pairingCode)) {
+                return { accepted: true, pairingToken: this.trust(request.deviceId, request.deviceName) };
+            }
+            this.failedAttempts += 1;
+            logDebug(`wrong pairing code from ${request.deviceName} (${this.failedAttempts}/${MAX_FAILED_PAIRING_ATTEMPTS})`);
+            if (this.failedAttempts >= MAX_FAILED_PAIRING_ATTEMPTS) {
+                this.renewPairingCode();
+                vscode.window.showWarningMessage('配对码错误次数过多, 已重新生成配对码');
+            }
+            return { accepted: false, reason: '配对码错误' };
+        }
+        return { accepted: false, reason: trusted ? '配对令牌无效, 请重新配对' : '设备未配对, 请输入 VSCode 中显示的配对码' };
+    }
+
+    verifyHttpToken(token: unknown) {
+        return typeof token === 'string' && safeEquals(token, this.httpToken);
+    }
+
+    revoke(deviceId: string) {
+        return this.context.globalState.update(KEY_TRUSTED_DEVICES, this.trustedDevices.filter(o => o.deviceId !== deviceId));
+    }
+
+    private consumeOneTimeCode(code: string) {
+        let now = Date.now();
+        for (let [ oneTimeCode, expiresAt ] of Array.from(this.oneTimeCodes)) {
+            if (expiresAt < now) {
+                this.oneTimeCodes.delete(oneTimeCode);
+            } else if (safeEquals(code, oneTimeCode)) {
+                this.oneTimeCodes.delete(oneTimeCode);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private trust(deviceId: string, deviceName: string): string {
+        let token = crypto.randomBytes(32).toString('hex');
+        let trustedDevices = this.trustedDevices.filter(o => o.deviceId !== deviceId);
+        trustedDevices.push({ deviceId, deviceName, tokenHash: hash(token), pairedAt: Date.now() });
+        this.context.globalState.update(KEY_TRUSTED_DEVICES, trustedDevices);
+        this.failedAttempts = 0;
+        logDebug(`device paired: ${deviceName} (${deviceId})`);
+        return token;
+    }
+}
+
+function hash(s: string) {
+    return crypto.createHash('sha256').update(s).digest('hex');
+}
+
+function safeEquals(a: string, b: string) {
+    let bufferA = Buffer.from(a);
+    let bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
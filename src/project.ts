@@ -112,7 +112,7 @@ export class ProjectObserver {
         this.fileObserver = new FileObserver(folder, filter);
     }
 
-    diff() {
+    diff(): Promise<DiffResult> {
         return this.fileObserver.walk()
             .then((fileChanges) => {
                 const zip = archiver('zip');
@@ -147,6 +147,13 @@ export class ProjectObserver {
     }
 }
 
+export interface DiffResult {
+    buffer: Buffer;
+    md5: string;
+    deletedFiles: string[];
+    full: boolean;
+}
+
 export class LaunchConfig {
     private displaySplash: boolean;
     private hideLogs: boolean;
@@ -0,0 +1,314 @@
+import * as zlib from 'zlib';
+import { buffToString } from './util';
+import { logDebug } from './extension';
+
+export const SERVER_HEADER_SIZE = 16;
+export const CLIENT_HEADER_SIZE = 8;
+
+export const TYPE_JSON = 1;
+export const TYPE_BYTES = 2;
+export const TYPE_JSON_COMPRESSED = 3;
+export const TYPE_BYTES_COMPRESSED = 4;
+
+/**
+ * Payloads smaller than this are not worth compressing.
+ */
+export const COMPRESSION_THRESHOLD = 1024;
+
+export const DEFAULT_REQUEST_TIMEOUT = 10e3;
+
+/**
+ * Protocol version spoken by AutoJs6 builds which do not report one in "hello".
+ */
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION = 2;
+
+export type Capability = 'binary_frames' | 'compression' | 'ack' | 'heartbeat' | 'file_listing' | 'eval' | 'tls' | 'screen_capture';
+
+export const CAPABILITY_DESCRIPTIONS: { [capability in Capability]: string } = {
+    binary_frames: '二进制数据帧',
+    compression: '数据压缩',
+    ack: '指令执行确认',
+    heartbeat: '心跳检测',
+    file_listing: '文件列表',
+    eval: '代码求值',
+    tls: '加密传输',
+    screen_capture: '屏幕截图',
+};
+
+/**
+ * Capabilities the extension is able to make use of, offered to AutoJs6 during the handshake.
+ */
+export const SUPPORTED_CAPABILITIES: Capability[] = [ 'binary_frames', 'compression', 'ack', 'heartbeat', 'file_listing', 'eval', 'tls', 'screen_capture' ];
+
+export type CompressionMode = 'deflate' | 'gzip';
+
+/**
+ * Compression modes in order of preference.
+ */
+export const SUPPORTED_COMPRESSION_MODES: CompressionMode[] = [ 'deflate', 'gzip' ];
+
+/**
+ * Commands which only work on devices having negotiated the given capability.
+ */
+export const COMMAND_CAPABILITIES: { [command: string]: Capability } = {
+    listFiles: 'file_listing',
+    eval: 'eval',
+    captureScreen: 'screen_capture',
+};
+
+export function negotiateCompression(offered: unknown): CompressionMode {
+    if (!Array.isArray(offered)) {
+        return null;
+    }
+    return SUPPORTED_COMPRESSION_MODES.find(mode => offered.includes(mode)) || null;
+}
+
+export function compress(mode: CompressionMode, data: Buffer): Buffer {
+    return mode === 'gzip' ? zlib.gzipSync(data) : zlib.deflateSync(data);
+}
+
+export function decompress(mode: CompressionMode, data: Buffer): Buffer {
+    return mode === 'gzip' ? zlib.gunzipSync(data) : zlib.inflateSync(data);
+}
+
+export function negotiateCapabilities(offered: unknown): Set<Capability> {
+    if (!Array.isArray(offered)) {
+        return new Set();
+    }
+    return new Set(SUPPORTED_CAPABILITIES.filter(c => offered.includes(c)));
+}
+
+export type MessageType = 'hello' | 'command' | 'bytes_command' | 'bytes_begin' | 'bytes_end' | 'bytes_cancel' | 'log' | 'ack' | 'result' | 'ping' | 'pong';
+
+export interface Message<T = any> {
+    id?: number;
+    type: MessageType | string;
+    md5?: string;
+    data: T;
+}
+
+/**
+ * Reply sent by AutoJs6 for an outbound message carrying an id.
+ * "ack" means the message is accepted, "result" means it has been handled.
+ */
+export interface AckData {
+    id: number;
+    status: 'ok' | 'error';
+    error?: string;
+    result?: any;
+    /**
+     * Set when the device has no "ack" capability, so the message was only written to the socket.
+     */
+    unconfirmed?: boolean;
+}
+
+export interface RequestOptions {
+    message?: Partial<Message>;
+    timeout?: number;
+    requires?: Capability;
+}
+
+export class ProtocolError extends Error {
+    readonly requestId: number;
+
+    constructor(requestId: number, message: string) {
+        super(message);
+        this.requestId = requestId;
+    }
+}
+
+export class CapabilityError extends Error {
+    readonly capability: Capability;
+
+    constructor(device: string, capability: Capability) {
+        super(`设备 ${device} 不支持${CAPABILITY_DESCRIPTIONS[capability]}, 请更新 AutoJs6 版本`);
+        this.capability = capability;
+    }
+}
+
+export class ChecksumMismatchError extends Error {
+    constructor(expected: string, actual: string) {
+        super(`数据校验失败 (期望 ${expected}, 实际 ${actual})`);
+    }
+}
+
+/**
+ * Compares a checksum reported by the device, if any, with the one of the payload sent.
+ */
+export function verifyChecksum(expected: string, reported: unknown) {
+    if (typeof reported === 'string' && reported.toLowerCase() !== expected.toLowerCase()) {
+        throw new ChecksumMismatchError(expected, reported);
+    }
+}
+
+export class ProtocolTimeoutError extends ProtocolError {
+    constructor(requestId: number, timeout: number) {
+        super(requestId, `设备未在 ${timeout} ms 内响应`);
+    }
+}
+
+interface PendingRequest {
+    resolve: (ack: AckData) => void;
+    reject: (e: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+export class PendingRequests {
+    private readonly requests = new Map<number, PendingRequest>();
+
+    add(id: number, timeout: number = DEFAULT_REQUEST_TIMEOUT): Promise<AckData> {
+        return new Promise<AckData>((resolve, reject) => {
+            let timer = setTimeout(() => {
+                this.requests.delete(id);
+                reject(new ProtocolTimeoutError(id, timeout));
+            }, timeout);
+            this.requests.set(id, { resolve, reject, timer });
+        });
+    }
+
+    settle(ack: AckData): boolean {
+        let request = this.requests.get(Number(ack?.id));
+        if (!request) {
+            logDebug(`no pending request for ack: ${ack?.id}`);
+            return false;
+        }
+        this.requests.delete(Number(ack.id));
+        clearTimeout(request.timer);
+        if (ack.status === 'error') {
+            request.reject(new ProtocolError(ack.id, ack.error || '设备返回未知错误'));
+        } else {
+            request.resolve(ack);
+        }
+        return true;
+    }
+
+    rejectAll(message: string) {
+        this.requests.forEach((request, id) => {
+            clearTimeout(request.timer);
+            request.reject(new ProtocolError(id, message));
+        });
+        this.requests.clear();
+    }
+
+    get size() {
+        return this.requests.size;
+    }
+}
+
+export function encodeJsonFrame(message: Message): Buffer[] {
+    let bytes: Buffer = Buffer.from(JSON.stringify(message), 'utf-8');
+    let string = buffToString(bytes);
+
+    let headerBuffer = Buffer.allocUnsafe(SERVER_HEADER_SIZE);
+    headerBuffer.write(String(string.length), 0);
+    headerBuffer.write(String(TYPE_JSON), SERVER_HEADER_SIZE - 2);
+
+    return [ headerBuffer, Buffer.from(string) ];
+}
+
+export function encodeBytesFrame(bytes: Buffer): Buffer[] {
+    let string = bytes.toString('latin1');
+
+    let headerBuffer = Buffer.allocUnsafe(SERVER_HEADER_SIZE);
+    headerBuffer.write(String(string.length), 0);
+    headerBuffer.write(String(TYPE_BYTES), SERVER_HEADER_SIZE - 2);
+
+    return [ headerBuffer, Buffer.from(string) ];
+}
+
+/**
+ * Frame header for devices with "binary_frames", where the length is the exact byte count of the payload.
+ */
+export function encodeFrameHeader(length: number, type: number): Buffer {
+    let headerBuffer = Buffer.alloc(SERVER_HEADER_SIZE);
+    headerBuffer.write(String(length), 0);
+    headerBuffer.write(String(type), SERVER_HEADER_SIZE - 2);
+    return headerBuffer;
+}
+
+export function encodeBinaryJsonFrame(message: Message, compression: CompressionMode = null): Buffer[] {
+    let bytes = Buffer.from(JSON.stringify(message), 'utf-8');
+    return encodeBinaryFrame(bytes, TYPE_JSON, TYPE_JSON_COMPRESSED, compression);
+}
+
+export function encodeBinaryBytesFrame(bytes: Buffer, compression: CompressionMode = null): Buffer[] {
+    return encodeBinaryFrame(bytes, TYPE_BYTES, TYPE_BYTES_COMPRESSED, compression);
+}
+
+function encodeBinaryFrame(bytes: Buffer, type: number, compressedType: number, compression: CompressionMode): Buffer[] {
+    if (compression && bytes.length >= COMPRESSION_THRESHOLD) {
+        let compressed = compress(compression, bytes);
+        if (compressed.length < bytes.length) {
+            return [ encodeFrameHeader(compressed.length, compressedType), compressed ];
+        }
+    }
+    return [ encodeFrameHeader(bytes.length, type), bytes ];
+}
+
+export function decodeJsonMessage(data: Buffer): Message {
+    return JSON.parse(data.toString('utf-8'));
+}
+
+export class FrameDecoder {
+    private static readonly DEFAULT_DATA_LENGTH = -1;
+    private static readonly DEFAULT_DATA_TYPE = -1;
+
+    private isLastDataComplete = true;
+    private jointData: Buffer = Buffer.allocUnsafe(0);
+    private parsedDataLength = FrameDecoder.DEFAULT_DATA_LENGTH;
+    private parsedDataType = FrameDecoder.DEFAULT_DATA_TYPE;
+
+    constructor(private readonly parser: (dataType: number, data: Buffer) => void) {
+    }
+
+    push(chunk: Buffer) {
+        let offset = 0;
+        let expectedChunkLen = ( /* @IIFE */ () => {
+            if (this.isLastDataComplete) {
+                this.parseHeader(chunk);
+                offset += CLIENT_HEADER_SIZE;
+                return CLIENT_HEADER_SIZE + this.parsedDataLength;
+            }
+            return this.parsedDataLength - this.jointData.length;
+        })();
+
+        this.joinData(chunk.slice(offset, expectedChunkLen));
+
+        if (chunk.length >= expectedChunkLen) {
+            this.isLastDataComplete = true;
+            this.parseFullData();
+            this.reset();
+
+            if (chunk.length > expectedChunkLen) {
+                let remaining = chunk.slice(expectedChunkLen);
+                logDebug(`remaining len: ${remaining.length}`);
+                this.push(remaining);
+            }
+        } else {
+            this.isLastDataComplete = false;
+        }
+    }
+
+    private joinData(data: Buffer): void {
+        logDebug(`length of data to be joint: ${data.length}`);
+        this.jointData = Buffer.concat([ this.jointData, data ]);
+    }
+
+    private parseHeader(chunk: Buffer) {
+        this.parsedDataLength = chunk.readInt32BE(0);
+        this.parsedDataType = chunk.readInt32BE(4);
+        logDebug(`dataLength: ${this.parsedDataLength}, dataType: ${this.parsedDataType}`);
+    }
+
+    private parseFullData() {
+        logDebug(`parsing full data... (len: ${this.jointData.length})`);
+        this.parser(this.parsedDataType, this.jointData);
+    }
+
+    private reset() {
+        this.jointData = Buffer.allocUnsafe(0);
+        this.parsedDataLength = FrameDecoder.DEFAULT_DATA_LENGTH;
+        this.parsedDataType = FrameDecoder.DEFAULT_DATA_TYPE;
+    }
+}
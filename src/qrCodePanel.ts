@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as QRCode from 'qrcode';
+
+import * as util from './util';
+import { Device, Devices } from './device';
+import { CONNECTION_TYPE_CLIENT_LAN, logDebug } from './extension';
+
+const INTERFACE_POLLING_INTERVAL = 3e3;
+
+/**
+ * Content of the QR code scanned by AutoJs6 to connect to VSCode in client mode.
+ */
+export function connectionUri(host: string, port: number, code: string) {
+    return `autojs6://connect?host=${encodeURIComponent(host)}&port=${port}&code=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Issues the one-time pairing codes put into the QR code, either locally or by the window owning the listener.
+ */
+export interface OneTimeCodeIssuer {
+    issueOneTimeCode(): Promise<string>;
+
+    revokeOneTimeCode(code: string): void;
+}
+
+/**
+ * Webview showing a QR code for AutoJs6 in client mode, which closes once a device has connected.
+ */
+export class QrCodePanel {
+    private static current: QrCodePanel = null;
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly client: Devices;
+    private readonly codes: OneTimeCodeIssuer;
+    private readonly port: number;
+    private readonly disposables: vscode.Disposable[] = [];
+    private code: string = null;
+    private host: string;
+    private interfacesSnapshot: string = null;
+    private isDisposed = false;
+
+    static show(client: Devices, codes: OneTimeCodeIssuer, host: string, port: number) {
+        if (QrCodePanel.current !== null) {
+            QrCodePanel.current.dispose();
+        }
+        QrCodePanel.current = new QrCodePanel(client, codes, host, port);
+    }
+
+    private constructor(client: Devices, codes: OneTimeCodeIssuer, host: string, port: number) {
+        this.client = client;
+        this.codes = codes;
+        this.host = host;
+        this.port = port;
+        this.panel = vscode.window.createWebviewPanel('autojs6.qrCode', 'AutoJs6 连接二维码', vscode.ViewColumn.Active, {
+            enableScripts: false,
+        });
+
+        let onNewDevice = (device: Device, type: number) => {
+            if (type === CONNECTION_TYPE_CLIENT_LAN) {
+                logDebug(`closing QR code panel, device attached: ${device}`);
+                this.dispose();
+            }
+        };
+        this.client.on('new_device', onNewDevice);
+        let timer = setInterval(() => this.checkInterfaces(), INTERFACE_POLLING_INTERVAL);
+        this.disposables.push(
+            { dispose: () => this.client.removeListener('new_device', onNewDevice) },
+            { dispose: () => clearInterval(timer) },
+        );
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.html = this.page('<p>正在生成二维码...</p>');
+
+        codes.issueOneTimeCode().then((code) => {
+            if (this.isDisposed) {
+                codes.revokeOneTimeCode(code);
+                return;
+            }
+            this.code = code;
+            this.checkInterfaces();
+        }, (e) => {
+            logDebug('Failed to issue one-time code: ', e);
+            this.panel.webview.html = this.page(`<p>无法生成一次性配对码: ${escapeHtml(e.message)}</p>`);
+        });
+    }
+
+    /**
+     * Re-renders when the interfaces change, moving to another interface if the chosen one is gone.
+     */
+    private checkInterfaces() {
+        if (this.code === null) {
+            return;
+        }
+        let interfaces = util.getBasicNetworkInterfaces();
+        let snapshot = interfaces.map(ni => `${ni.iface}=${util.addressOfInterface(ni)}`).join(',');
+        if (snapshot === this.interfacesSnapshot) {
+            return;
+        }
+        this.interfacesSnapshot = snapshot;
+        if (!interfaces.some(ni => util.addressOfInterface(ni) === this.host)) {
+            this.host = interfaces.length > 0 ? util.addressOfInterface(interfaces[0]) : null;
+        }
+        this.render(interfaces);
+    }
+
+    private render(interfaces: util.NIDetails[]) {
+        if (this.host === null) {
+            this.panel.webview.html = this.page('<p>未找到可用的局域网 IP 地址, 连接网络后将自动刷新</p>');
+            return;
+        }
+        let uri = connectionUri(this.host, this.port, this.code);
+        QRCode.toString(uri, { type: 'svg', margin: 2, errorCorrectionLevel: 'M' }).then((svg) => {
+            let iface = interfaces.find(ni => util.addressOfInterface(ni) === this.host);
+            this.panel.webview.html = this.page([
+                `<div class="qr">${svg}</div>`,
+                `<p>在 AutoJs6 侧拉菜单开启客户端模式并扫描二维码</p>`,
+                `<p class="address">${util.formatHostPort(this.host, this.port)}${iface ? ` (${escapeHtml(iface.iface)})` : ''}</p>`,
+                `<p class="hint">二维码包含一次性配对码, 10 分钟内有效, 设备连接后此页面将自动关闭</p>`,
+            ].join('\n'));
+        }).catch((e) => {
+            logDebug('Failed to generate QR code: ', e);
+            this.panel.webview.html = this.page(`<p>二维码生成失败: ${escapeHtml(e.message)}</p>`);
+        });
+    }
+
+    private page(body: string) {
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        body { display: flex; flex-direction: column; align-items: center; padding-top: 2em; }
+        .qr { width: 280px; height: 280px; background: #fff; }
+        .address { font-family: var(--vscode-editor-font-family); font-size: 1.2em; }
+        .hint { color: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+    }
+
+    private dispose() {
+        if (this.isDisposed) {
+            return;
+        }
+        this.isDisposed = true;
+        if (QrCodePanel.current === this) {
+            QrCodePanel.current = null;
+        }
+        if (this.code !== null) {
+            this.codes.revokeOneTimeCode(this.code);
+        }
+        this.disposables.splice(0).forEach(d => d.dispose());
+        this.panel.dispose();
+    }
+}
+
+function escapeHtml(s: string) {
+    return String(s).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+}
@@ -0,0 +1,297 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import * as util from './util';
+import { Device, Devices } from './device';
+import { logDebug } from './extension';
+
+/**
+ * Live view intervals offered in the panel, low enough not to flood ADB or the device.
+ */
+const LIVE_INTERVALS = [ 1e3, 2e3, 5e3 ];
+
+const SCREENSHOTS_DIR = 'screenshots';
+
+/**
+ * Grabs a PNG screenshot of the device, e.g. through "adb exec-out screencap -p".
+ */
+export type ScreenCapturer = () => Promise<Buffer>;
+
+type PanelMessage =
+    { type: 'capture' }
+    | { type: 'save' }
+    | { type: 'live', interval: number };
+
+/**
+ * Webview showing a screenshot of a device with zoom, pixel coordinates and color under the cursor,
+ * refreshed periodically in live view. There is one panel per device.
+ */
+export class ScreenPanel {
+    private static readonly panels = new Map<string, ScreenPanel>();
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly device: Device;
+    private readonly capture: ScreenCapturer;
+    private readonly disposables: vscode.Disposable[] = [];
+    private png: Buffer = null;
+    private capturedAt: number = 0;
+    private liveInterval: number = 0;
+    private liveTimer: NodeJS.Timeout = null;
+    private isCapturing = false;
+    private isDisposed = false;
+
+    static show(client: Devices, device: Device, capture: ScreenCapturer) {
+        let existing = ScreenPanel.panels.get(device.deviceId);
+        if (existing) {
+            existing.panel.reveal();
+            existing.refresh();
+            return;
+        }
+        ScreenPanel.panels.set(device.deviceId, new ScreenPanel(client, device, capture));
+    }
+
+    private constructor(client: Devices, device: Device, capture: ScreenCapturer) {
+        this.device = device;
+        this.capture = capture;
+        this.panel = vscode.window.createWebviewPanel('autojs6.screen', `屏幕 - ${device.displayName}`, vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+        });
+
+        let onDetach = (detached: Device) => {
+            if (detached === device) {
+                this.setLive(0);
+                this.post({ type: 'error', message: `设备已断开连接: ${device}` });
+            }
+        };
+        client.on('detach_device', onDetach);
+        this.disposables.push(
+            { dispose: () => client.removeListener('detach_device', onDetach) },
+            this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.onMessage(message)),
+        );
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.html = this.page();
+        this.refresh();
+    }
+
+    private onMessage(message: PanelMessage) {
+        switch (message.type) {
+            case 'capture':
+                this.refresh();
+                break;
+            case 'save':
+                this.save();
+                break;
+            case 'live':
+                this.setLive(LIVE_INTERVALS.includes(message.interval) ? message.interval : 0);
+                this.liveInterval > 0 && this.refresh();
+                break;
+        }
+    }
+
+    /**
+     * Captures once, then again after the live interval if live view is on; captures never overlap.
+     */
+    private async refresh() {
+        if (this.isCapturing || this.isDisposed) {
+            return;
+        }
+        this.isCapturing = true;
+        clearTimeout(this.liveTimer);
+        this.post({ type: 'busy' });
+        try {
+            let png = await this.capture();
+            this.png = png;
+            this.capturedAt = Date.now();
+            this.post({
+                type: 'image',
+                dataUrl: `data:image/png;base64,${png.toString('base64')}`,
+                capturedAt: util.formatDateTime(this.capturedAt),
+            });
+        } catch (e) {
+            logDebug(`failed to capture screen of ${this.device}: `, e);
+            this.setLive(0);
+            this.post({ type: 'error', message: `截图失败: ${e.message}` });
+        } finally {
+            this.isCapturing = false;
+        }
+        if (this.liveInterval > 0 && !this.isDisposed) {
+            this.liveTimer = setTimeout(() => this.refresh(), this.liveInterval);
+        }
+    }
+
+    private setLive(interval: number) {
+        this.liveInterval = interval;
+        clearTimeout(this.liveTimer);
+        this.liveTimer = null;
+        this.post({ type: 'live', interval });
+    }
+
+    /**
+     * Saves the screenshot into the "screenshots" folder of the workspace, or wherever the user picks without one.
+     */
+    private async save() {
+        if (this.png === null) {
+            return;
+        }
+        let name = `screen-${util.formatDateTime(this.capturedAt).replace(/\D/g, '')}.png`;
+        let folder = vscode.workspace.workspaceFolders?.[0];
+        let uri: vscode.Uri;
+        if (folder) {
+            let dir = path.join(folder.uri.fsPath, SCREENSHOTS_DIR);
+            fs.mkdirSync(dir, { recursive: true });
+            uri = vscode.Uri.file(path.join(dir, name));
+        } else {
+            uri = await vscode.window.showSaveDialog({ defaultUri: vscode.Uri.file(name), filters: { PNG: [ 'png' ] } });
+            if (uri === undefined) {
+                return;
+            }
+        }
+        try {
+            fs.writeFileSync(uri.fsPath, this.png);
+        } catch (e) {
+            vscode.window.showErrorMessage(`截图保存失败: ${e.message}`);
+            return;
+        }
+        const open = '打开';
+        vscode.window.showInformationMessage(`截图已保存: ${vscode.workspace.asRelativePath(uri)}`, open).then((choice) => {
+            choice && vscode.commands.executeCommand('vscode.open', uri);
+        });
+    }
+
+    private post(message: object) {
+        if (!this.isDisposed) {
+            this.panel.webview.postMessage(message);
+        }
+    }
+
+    private page() {
+        let nonce = crypto.randomBytes(16).toString('hex');
+        let intervals = LIVE_INTERVALS.map(ms => `<option value="${ms}">${ms / 1e3} 秒</option>`).join('');
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { margin: 0; padding: 0; }
+        .toolbar { position: sticky; top: 0; display: flex; gap: .5em; align-items: center; padding: .5em; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+        .toolbar .status { margin-left: auto; color: var(--vscode-descriptionForeground); font-family: var(--vscode-editor-font-family); }
+        .swatch { display: inline-block; width: 1em; height: 1em; vertical-align: middle; border: 1px solid var(--vscode-panel-border); }
+        .viewport { padding: .5em; }
+        canvas { image-rendering: pixelated; cursor: crosshair; }
+        .message { padding: 1em; color: var(--vscode-errorForeground); }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <button id="capture">刷新</button>
+        <button id="save" disabled>保存到项目</button>
+        <label>实时 <select id="live"><option value="0">关闭</option>${intervals}</select></label>
+        <button id="zoom-out">-</button>
+        <span id="zoom">适应</span>
+        <button id="zoom-in">+</button>
+        <button id="zoom-fit">适应窗口</button>
+        <span class="status"><span id="pixel"></span> <span id="time"></span></span>
+    </div>
+    <div id="message" class="message" hidden></div>
+    <div class="viewport"><canvas id="canvas"></canvas></div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const canvas = document.getElementById('canvas');
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        const $ = id => document.getElementById(id);
+        let image = null;
+        let scale = 0; // 0 means fitting the window
+
+        function render() {
+            if (!image) return;
+            let fit = Math.min(1, (document.body.clientWidth - 16) / image.width);
+            let actual = scale || fit;
+            canvas.style.width = Math.round(image.width * actual) + 'px';
+            canvas.style.height = Math.round(image.height * actual) + 'px';
+            $('zoom').textContent = scale ? Math.round(scale * 100) + '%' : '适应';
+        }
+
+        function zoom(factor) {
+            let current = scale || Math.min(1, (document.body.clientWidth - 16) / (image ? image.width : 1));
+            scale = Math.min(8, Math.max(0.1, current * factor));
+            render();
+        }
+
+        $('capture').onclick = () => vscode.postMessage({ type: 'capture' });
+        $('save').onclick = () => vscode.postMessage({ type: 'save' });
+        $('live').onchange = e => vscode.postMessage({ type: 'live', interval: Number(e.target.value) });
+        $('zoom-in').onclick = () => zoom(1.25);
+        $('zoom-out').onclick = () => zoom(0.8);
+        $('zoom-fit').onclick = () => { scale = 0; render(); };
+        window.addEventListener('resize', render);
+        window.addEventListener('wheel', (e) => {
+            if (e.ctrlKey) {
+                e.preventDefault();
+                zoom(e.deltaY < 0 ? 1.1 : 0.9);
+            }
+        }, { passive: false });
+
+        canvas.addEventListener('mousemove', (e) => {
+            if (!image) return;
+            let rect = canvas.getBoundingClientRect();
+            let x = Math.floor((e.clientX - rect.left) * image.width / rect.width);
+            let y = Math.floor((e.clientY - rect.top) * image.height / rect.height);
+            let [ r, g, b ] = context.getImageData(x, y, 1, 1).data;
+            let hex = '#' + [ r, g, b ].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase();
+            $('pixel').innerHTML = '(' + x + ', ' + y + ') <span class="swatch" style="background:' + hex + '"></span> ' + hex;
+        });
+        canvas.addEventListener('mouseleave', () => $('pixel').textContent = '');
+
+        window.addEventListener('message', (event) => {
+            let message = event.data;
+            switch (message.type) {
+                case 'busy':
+                    $('capture').disabled = true;
+                    break;
+                case 'image':
+                    let next = new Image();
+                    next.onload = () => {
+                        image = next;
+                        canvas.width = image.width;
+                        canvas.height = image.height;
+                        context.drawImage(image, 0, 0);
+                        $('time').textContent = message.capturedAt + ' | ' + image.width + 'x' + image.height;
+                        $('message').hidden = true;
+                        $('save').disabled = false;
+                        $('capture').disabled = false;
+                        render();
+                    };
+                    next.src = message.dataUrl;
+                    break;
+                case 'error':
+                    $('message').textContent = message.message;
+                    $('message').hidden = false;
+                    $('capture').disabled = false;
+                    break;
+                case 'live':
+                    $('live').value = String(message.interval);
+                    break;
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private dispose() {
+        if (this.isDisposed) {
+            return;
+        }
+        this.isDisposed = true;
+        clearTimeout(this.liveTimer);
+        if (ScreenPanel.panels.get(this.device.deviceId) === this) {
+            ScreenPanel.panels.delete(this.device.deviceId);
+        }
+        this.disposables.splice(0).forEach(d => d.dispose());
+        this.panel.dispose();
+    }
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+
+import { Devices } from './device';
+
+const STATUS_BAR_PRIORITY = 100;
+
+/**
+ * Status bar item showing how many devices are connected and which of them are the current targets.
+ */
+export class DeviceStatusBar {
+    private readonly item: vscode.StatusBarItem;
+    private readonly client: Devices;
+
+    constructor(client: Devices, command: string) {
+        this.client = client;
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, STATUS_BAR_PRIORITY);
+        this.item.command = command;
+        this.client
+            .on('new_device', () => this.update())
+            .on('detach_device', () => this.update())
+            .on('device_state', () => this.update())
+            .on('reconnect_failed', () => this.update())
+            .on('target_devices', () => this.update())
+            .on('device_alias', () => this.update());
+        this.update();
+        this.item.show();
+    }
+
+    update() {
+        let devices = this.client.devices;
+        let reconnecting = this.client.reconnectingDevices;
+        let isTargeted = this.client.targetDeviceIds.length > 0;
+        let targets = isTargeted ? this.client.targetDevices : [];
+
+        if (reconnecting.length > 0) {
+            this.item.text = `$(sync~spin) AutoJs6: ${devices.length}`;
+            this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else {
+            this.item.text = `$(device-mobile) AutoJs6: ${devices.length}`;
+            this.item.backgroundColor = undefined;
+        }
+        if (targets.length === 1) {
+            this.item.text += ` | ${targets[0].displayName}`;
+        } else if (targets.length > 1) {
+            this.item.text += ` | ${targets.length} 台目标设备`;
+        }
+        this.item.tooltip = [
+            devices.length > 0 ? `已连接设备: ${devices.length} 台` : '未连接设备',
+            isTargeted
+                ? `目标设备: ${targets.length > 0 ? targets.join(', ') : '未连接'}`
+                : '目标设备: 全部设备',
+            ...reconnecting.map(device => `正在重新连接: ${device}`),
+        ].join('\n');
+    }
+
+    dispose() {
+        this.item.dispose();
+    }
+}
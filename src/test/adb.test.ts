@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as net from 'net';
+
+import { Adb, AdbDeviceOfflineError, AdbDeviceUnauthorizedError, AdbExecError } from '../adb';
+import { AdbClient } from '../adbClient';
+import { AdbWatcher } from '../adbWatcher';
+
+type FakeReply = (socket: net.Socket, service: string) => string | void;
+
+/**
+ * Minimal ADB server answering each smart-socket request with the reply of the first handler accepting it.
+ */
+function createFakeAdbServer(handlers: { [service: string]: FakeReply }): Promise<net.Server> {
+    let server = net.createServer((socket) => {
+        let buffer = Buffer.alloc(0);
+        socket.on('data', (chunk) => {
+            buffer = Buffer.concat([ buffer, chunk ]);
+            while (buffer.length >= 4) {
+                let length = parseInt(buffer.subarray(0, 4).toString(), 16);
+                if (buffer.length < 4 + length) {
+                    return;
+                }
+                let service = buffer.subarray(4, 4 + length).toString();
+                buffer = buffer.subarray(4 + length);
+                let handler = Object.keys(handlers).find(prefix => service.startsWith(prefix));
+                if (handler === undefined) {
+                    socket.end(fail(`unknown service ${service}`));
+                    return;
+                }
+                let reply = handlers[handler](socket, service);
+                if (typeof reply === 'string') {
+                    socket.write(reply);
+                }
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function okay(payload?: string) {
+    return 'OKAY' + (payload === undefined ? '' : Buffer.byteLength(payload).toString(16).padStart(4, '0') + payload);
+}
+
+function fail(message: string) {
+    return 'FAIL' + Buffer.byteLength(message).toString(16).padStart(4, '0') + message;
+}
+
+suite('Adb Tests', () => {
+
+    test('parses devices with their states and properties', () => {
+        let entries = Adb.parseDevices([
+            'List of devices attached',
+            'emulator-5554          device product:sdk_gphone64 model:Pixel_7 device:emu64 transport_id:1',
+            'R58M1234567            unauthorized usb:1-1 transport_id:2',
+            '192.168.1.5:5555       offline',
+            '',
+        ].join('\r\n'));
+
+        assert.deepEqual(entries.map(e => [ e.serial, e.state ]), [
+            [ 'emulator-5554', 'device' ],
+            [ 'R58M1234567', 'unauthorized' ],
+            [ '192.168.1.5:5555', 'offline' ],
+        ]);
+        assert.equal(entries[0].properties.model, 'Pixel_7');
+        assert.equal(entries[0].properties.product, 'sdk_gphone64');
+    });
+
+    test('classifies failures by the stderr of adb', () => {
+        let failure = (stderr: string) => ({ status: 1, stdout: Buffer.alloc(0), stderr: Buffer.from(stderr) });
+        let args = [ '-s', 'R58M1234567', 'shell', 'getprop' ];
+
+        assert.throws(() => Adb.throwsIfNeeded(args, failure('error: device unauthorized.')), AdbDeviceUnauthorizedError);
+        assert.throws(() => Adb.throwsIfNeeded(args, failure('error: device offline')), AdbDeviceOfflineError);
+        assert.throws(() => Adb.throwsIfNeeded(args, failure('error: closed')), AdbExecError);
+    });
+
+    suite('AdbClient against a fake ADB server', () => {
+        let server: net.Server;
+        let client: AdbClient;
+        let services: string[];
+
+        setup(async () => {
+            services = [];
+            let record = (reply: FakeReply): FakeReply => (socket, service) => {
+                services.push(service);
+                return reply(socket, service);
+            };
+            server = await createFakeAdbServer({
+                'host:devices-l': record(() => okay('emulator-5554          device product:sdk model:Pixel_7 transport_id:1\n')),
+                'host-serial:emulator-5554:forward:': record(() => okay() + okay()),
+                'host-serial:R58M1234567:forward:': record(() => okay() + fail('device unauthorized.')),
+                'host:connect:192.168.1.5:5555': record(() => okay('connected to 192.168.1.5:5555')),
+                'host:connect:': record(() => okay('failed to connect to 192.168.1.6:5555')),
+                'host:list-forward': record(() => okay('emulator-5554 tcp:6348 tcp:7347\n')),
+                'host:transport:': record(() => okay()),
+                'shell:getprop ro.product.brand': record(socket => void socket.end(okay() + 'Google\n')),
+                'host:track-devices-l': record((socket) => {
+                    socket.write(okay() + okay('emulator-5554\tdevice\n').substring(4));
+                    setTimeout(() => socket.write(okay('').substring(4)), 10);
+                }),
+            });
+            client = new AdbClient((server.address() as net.AddressInfo).port);
+        });
+
+        teardown(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+        test('lists devices through host:devices-l', async () => {
+            let entries = await client.devices();
+            assert.equal(entries.length, 1);
+            assert.equal(entries[0].serial, 'emulator-5554');
+            assert.equal(entries[0].properties.model, 'Pixel_7');
+        });
+
+        test('forwards ports and reports failures as typed errors', async () => {
+            await client.forward('emulator-5554', 6348, 7347);
+            assert.equal(services[0], 'host-serial:emulator-5554:forward:tcp:6348;tcp:7347');
+            await assert.rejects(client.forward('R58M1234567', 6348, 7347), AdbDeviceUnauthorizedError);
+        });
+
+        test('lists forwards through host:list-forward', async () => {
+            let forwards = await client.listForwards();
+            assert.deepEqual(forwards, [ { serial: 'emulator-5554', local: 'tcp:6348', remote: 'tcp:7347' } ]);
+        });
+
+        test('tells successful wireless connections from failed ones', async () => {
+            assert.equal(await client.connectDevice('192.168.1.5:5555'), 'connected to 192.168.1.5:5555');
+            await assert.rejects(client.connectDevice('192.168.1.6:5555'), /failed to connect/);
+        });
+
+        test('runs shell commands over the device transport', async () => {
+            let adb = new Adb('', client);
+            assert.equal(await adb.getprop('emulator-5554', 'ro.product.brand'), 'Google');
+            assert.deepEqual(services, [ 'host:transport:emulator-5554', 'shell:getprop ro.product.brand' ]);
+        });
+
+        test('follows device changes through host:track-devices-l', async () => {
+            let tracker = client.trackDevices();
+            let changes: string[][] = [];
+            let done = new Promise<void>(resolve => tracker.on('change', (entries) => {
+                changes.push(entries.map(e => e.serial));
+                changes.length === 2 && resolve();
+            }));
+            await tracker.start();
+            await done;
+            tracker.stop();
+            assert.deepEqual(changes, [ [ 'emulator-5554' ], [] ]);
+        });
+
+        test('watcher reports devices as they are attached and detached', async () => {
+            let watcher = new AdbWatcher(new Adb('', client));
+            let events: string[] = [];
+            let done = new Promise<void>((resolve) => {
+                watcher.on('attached', serial => events.push(`attached ${serial}`));
+                watcher.on('detached', (serial) => {
+                    events.push(`detached ${serial}`);
+                    resolve();
+                });
+            });
+            watcher.start();
+            await done;
+            watcher.stop();
+            assert.deepEqual(events, [ 'attached emulator-5554', 'detached emulator-5554' ]);
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Broker, BrokerHooks, DeviceSnapshot } from '../broker';
+import { Devices } from '../device';
+import { CONNECTION_TYPE_SERVER_LAN } from '../extension';
+import { FakeAutoJs6Server } from './fakeAutoJs6Server';
+
+function testBrokerPath(name: string) {
+    let id = `autojs6-broker-test-${name}-${process.pid}`;
+    return process.platform === 'win32' ? `\\\\.\\pipe\\${id}` : path.join(os.tmpdir(), `${id}.sock`);
+}
+
+function createHooks(port: number): BrokerHooks {
+    return {
+        listener: () => ({ port, pairingCode: `code-${port}` }),
+        issueOneTimeCode: () => `one-time-${port}`,
+        revokeOneTimeCode: () => undefined,
+        connectToAdb: () => Promise.resolve(),
+    };
+}
+
+suite('Broker Tests', () => {
+
+    test('second window joins the first one as guest', async () => {
+        let brokerPath = testBrokerPath('join');
+        let first = new Broker(new Devices(), createHooks(6347), brokerPath);
+        let second = new Broker(new Devices(), createHooks(6348), brokerPath);
+        try {
+            assert.equal(await first.start(), 'host');
+            assert.equal(await second.start(), 'guest');
+            assert.deepEqual(await second.listener(), { port: 6347, pairingCode: 'code-6347' });
+            assert.equal(await second.issueOneTimeCode(), 'one-time-6347');
+        } finally {
+            second.dispose();
+            first.dispose();
+        }
+    });
+
+    test('guest takes the devices over when the host window closes', async () => {
+        let brokerPath = testBrokerPath('handover');
+        let server = new FakeAutoJs6Server();
+        server.capabilities = [ 'heartbeat', 'eval' ];
+        let hostClient = new Devices();
+        let guestClient = new Devices();
+        let first = new Broker(hostClient, createHooks(6347), brokerPath);
+        let second = new Broker(guestClient, createHooks(6348), brokerPath);
+        try {
+            let port = await server.listen();
+            await first.start();
+            await second.start();
+            let mirrored = new Promise(resolve => guestClient.once('new_device', resolve));
+            await hostClient.connectTo('127.0.0.1', port, CONNECTION_TYPE_SERVER_LAN);
+            await mirrored;
+
+            let takeover = new Promise<DeviceSnapshot[]>(resolve => second.once('role', (role, orphans) => resolve(orphans)));
+            // Shuts down like Extension.deactivate() in the host window
+            first.dispose();
+            hostClient.disconnect();
+
+            let orphans = await takeover;
+            assert.equal(second.role, 'host');
+            assert.deepEqual(orphans.map(o => [ o.deviceId, o.target.port, o.capabilities ]), [ [ 'a1', port, [ 'heartbeat', 'eval' ] ] ]);
+            assert.deepEqual(await second.listener(), { port: 6348, pairingCode: 'code-6348' });
+        } finally {
+            second.dispose();
+            first.dispose();
+            hostClient.disconnect();
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+
+import { CertificatePins, fingerprintOf } from '../certificate';
+import { MemoryMemento } from './memento';
+
+const FINGERPRINT_A = fingerprintOf(Buffer.from('certificate a'));
+const FINGERPRINT_B = fingerprintOf(Buffer.from('certificate b'));
+
+suite('Certificate Tests', () => {
+
+    test('formats fingerprints as colon-separated uppercase SHA-256', () => {
+        let der = Buffer.from('certificate a');
+        let hex = crypto.createHash('sha256').update(der).digest('hex').toUpperCase();
+        assert.equal(fingerprintOf(der), hex.match(/../g).join(':'));
+        assert.ok(/^([\dA-F]{2}:){31}[\dA-F]{2}$/.test(FINGERPRINT_A));
+    });
+
+    test('pins the certificate presented on first connection', () => {
+        let pins = new CertificatePins(new MemoryMemento());
+        assert.equal(pins.isPinned('a1'), false);
+        assert.equal(pins.verify('a1', 'Pixel 7', FINGERPRINT_A), true);
+        assert.equal(pins.isPinned('a1'), true);
+        assert.deepEqual(pins.pins.map(({ deviceId, fingerprint }) => ({ deviceId, fingerprint })), [ { deviceId: 'a1', fingerprint: FINGERPRINT_A } ]);
+    });
+
+    test('rejects certificates other than the pinned one', () => {
+        let pins = new CertificatePins(new MemoryMemento());
+        pins.verify('a1', 'Pixel 7', FINGERPRINT_A);
+
+        assert.equal(pins.verify('a1', 'Pixel 7', FINGERPRINT_A), true);
+        assert.equal(pins.verify('a1', 'Pixel 7', FINGERPRINT_B), false);
+        assert.equal(pins.verify('b2', 'Mi 11', FINGERPRINT_B), true);
+        assert.equal(pins.pins.length, 2);
+    });
+
+    test('pins again once forgotten', async () => {
+        let state = new MemoryMemento();
+        let pins = new CertificatePins(state);
+        pins.verify('a1', 'Pixel 7', FINGERPRINT_A);
+
+        await pins.forget('a1');
+        assert.equal(new CertificatePins(state).isPinned('a1'), false);
+        assert.equal(pins.verify('a1', 'Pixel 7', FINGERPRINT_B), true);
+    });
+});
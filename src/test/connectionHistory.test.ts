@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+
+import { ConnectionEntry, ConnectionHistory } from '../connectionHistory';
+import { MemoryMemento } from './memento';
+
+const DEFAULT_PORT = 6347;
+
+function lanEntry(host: string, port = DEFAULT_PORT): ConnectionEntry {
+    return { transport: 'lan', host, port, adbSerial: null, deviceId: null, deviceName: null };
+}
+
+function adbEntry(adbSerial: string): ConnectionEntry {
+    return { transport: 'adb', host: null, port: null, adbSerial, deviceId: null, deviceName: null };
+}
+
+suite('ConnectionHistory Tests', () => {
+
+    test('migrates legacy records and removes them afterwards', async () => {
+        let state = new MemoryMemento();
+        await state.update('autojs6.devices', [ '[ 记录 ] - 192.168.1.5|1700000000', '192.168.1.6|1700000100', '192.168.1.7|unknown' ]);
+        let history = new ConnectionHistory(state);
+
+        await history.migrate(DEFAULT_PORT);
+        assert.deepEqual(history.records.map(o => [ ConnectionHistory.keyOf(o), o.lastConnected ]), [
+            [ `lan:192.168.1.6:${DEFAULT_PORT}`, 1700000100 ],
+            [ `lan:192.168.1.5:${DEFAULT_PORT}`, 1700000000 ],
+            [ `lan:192.168.1.7:${DEFAULT_PORT}`, 0 ],
+        ]);
+        assert.equal(state.get('autojs6.devices'), undefined);
+    });
+
+    test('skips legacy records already known', async () => {
+        let state = new MemoryMemento();
+        let history = new ConnectionHistory(state);
+        await history.add(lanEntry('192.168.1.5'));
+        await history.setPinned(`lan:192.168.1.5:${DEFAULT_PORT}`, true);
+        await state.update('autojs6.devices', [ '[ 记录 ] - 192.168.1.5|1700000000', '192.168.1.5|1700000100' ]);
+
+        await history.migrate(DEFAULT_PORT);
+        assert.equal(history.records.length, 1);
+        assert.equal(history.records[0].pinned, true);
+    });
+
+    test('leaves the history alone without legacy records', async () => {
+        let state = new MemoryMemento();
+        let history = new ConnectionHistory(state);
+        await history.add(adbEntry('emulator-5554'));
+
+        await history.migrate(DEFAULT_PORT);
+        assert.deepEqual(state.keys(), [ 'autojs6.connectionHistory' ]);
+        assert.equal(history.records.length, 1);
+    });
+
+    test('counts repeated connections and lists pinned records first', async () => {
+        let history = new ConnectionHistory(new MemoryMemento());
+        await history.add(lanEntry('192.168.1.5'));
+        await history.add(adbEntry('emulator-5554'));
+        await history.setPinned(`lan:192.168.1.5:${DEFAULT_PORT}`, true);
+        await history.add(adbEntry('emulator-5554'));
+
+        assert.deepEqual(history.records.map(o => [ ConnectionHistory.keyOf(o), o.connectCount ]), [
+            [ `lan:192.168.1.5:${DEFAULT_PORT}`, 1 ],
+            [ 'adb:emulator-5554', 2 ],
+        ]);
+    });
+
+    test('keeps pinned records when cleared', async () => {
+        let history = new ConnectionHistory(new MemoryMemento());
+        await history.add(lanEntry('192.168.1.5'));
+        await history.add(lanEntry('192.168.1.6'));
+        await history.add(adbEntry('emulator-5554'));
+        await history.setPinned(`lan:192.168.1.6:${DEFAULT_PORT}`, true);
+
+        assert.equal(await history.clear('lan'), 1);
+        assert.deepEqual(history.records.map(o => ConnectionHistory.keyOf(o)), [ `lan:192.168.1.6:${DEFAULT_PORT}`, 'adb:emulator-5554' ]);
+    });
+});
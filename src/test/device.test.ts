@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+
+import { Device, Devices } from '../device';
+import { CONNECTION_TYPE_SERVER_LAN } from '../extension';
+import { ProtocolTimeoutError } from '../protocol';
+import { FakeAutoJs6Server } from './fakeAutoJs6Server';
+
+suite('Devices Tests', () => {
+    let server: FakeAutoJs6Server;
+    let client: Devices;
+
+    setup(() => {
+        server = new FakeAutoJs6Server();
+        client = new Devices();
+    });
+
+    teardown(() => {
+        client.disconnect();
+        server.close();
+    });
+
+    test('lists a device again once it has reconnected', async () => {
+        let port = await server.listen();
+        let device = await client.connectTo('127.0.0.1', port, CONNECTION_TYPE_SERVER_LAN) as Device;
+        assert.deepEqual(client.devices, [ device ]);
+
+        let reattached = new Promise<boolean>(resolve => client.on('new_device', (dev, type, isReattached) => resolve(isReattached)));
+        server.sockets[0].destroy();
+
+        assert.equal(await reattached, true);
+        assert.equal(device.state, 'attached');
+        assert.deepEqual(client.devices, [ device ]);
+        assert.deepEqual(client.reconnectingDevices, []);
+    });
+
+    test('waits for pong in heartbeats of devices without ack', async () => {
+        server.capabilities = [ 'heartbeat', 'binary_frames' ];
+        let device = await client.connectTo('127.0.0.1', await server.listen(), CONNECTION_TYPE_SERVER_LAN) as Device;
+        assert.equal(device.hasCapability('ack'), false);
+
+        assert.equal((await device['ping'](1e3)).status, 'ok');
+        server.answersPing = false;
+        await assert.rejects(device['ping'](100), ProtocolTimeoutError);
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+
+import { broadcastAddresses, DiscoveredServer, Discovery } from '../discovery';
+
+// Stands in for AutoJs6 in server mode, answering discovery probes on a local port.
+function createResponder(reply: (probe: any) => object): Promise<dgram.Socket> {
+    return new Promise((resolve) => {
+        let responder = dgram.createSocket('udp4');
+        responder.on('message', (msg, rinfo) => {
+            let answer = Buffer.from(JSON.stringify(reply(JSON.parse(msg.toString('utf-8')))), 'utf-8');
+            responder.send(answer, rinfo.port, rinfo.address);
+        });
+        responder.bind(0, '127.0.0.1', () => resolve(responder));
+    });
+}
+
+suite('Discovery Tests', () => {
+
+    test('computes broadcast addresses of interfaces', () => {
+        assert.deepEqual(broadcastAddresses([
+            { iface: 'eth0', ip4: '192.168.1.23', netmask: '255.255.255.0', mac: '' },
+            { iface: 'wlan0', ip4: '10.0.12.5', netmask: '255.255.0.0', mac: '' },
+            { iface: 'tun0', ip4: '172.16.0.2', mac: '' },
+            { iface: 'wg0', ip6: '2001:db8::5', mac: '' },
+        ]), [ '192.168.1.255', '10.0.255.255', '255.255.255.255' ]);
+    });
+
+    test('lists servers answering the probe', async () => {
+        let probes: any[] = [];
+        let responder = await createResponder((probe) => {
+            probes.push(probe);
+            return {
+                type: 'discover_reply',
+                data: {
+                    device_id: 'abc123',
+                    device_name: 'Pixel 7',
+                    app_version: '6.6.0',
+                    app_version_code: '3000',
+                    port: 7347,
+                },
+            };
+        });
+        let discovery = new Discovery(() => [], {
+            port: responder.address().port,
+            probeInterval: 100,
+            targets: () => [ '127.0.0.1' ],
+        });
+        try {
+            let servers = await new Promise<DiscoveredServer[]>((resolve) => {
+                discovery.once('change', resolve);
+                discovery.start();
+            });
+            assert.equal(probes[0].type, 'discover');
+            assert.equal(servers.length, 1);
+            assert.equal(servers[0].deviceId, 'abc123');
+            assert.equal(servers[0].deviceName, 'Pixel 7');
+            assert.equal(servers[0].appVersion, '6.6.0');
+            assert.equal(servers[0].appVersionCode, 3000);
+            assert.equal(servers[0].host, '127.0.0.1');
+            assert.equal(servers[0].port, 7347);
+        } finally {
+            discovery.stop();
+            responder.close();
+        }
+    });
+
+    test('ignores unrelated replies', async () => {
+        let responder = await createResponder(() => ({ type: 'hello', data: {} }));
+        let discovery = new Discovery(() => [], {
+            port: responder.address().port,
+            probeInterval: 50,
+            targets: () => [ '127.0.0.1' ],
+        });
+        try {
+            await discovery.start();
+            await new Promise(resolve => setTimeout(resolve, 300));
+            assert.equal(discovery.servers.length, 0);
+        } finally {
+            discovery.stop();
+            responder.close();
+        }
+    });
+});
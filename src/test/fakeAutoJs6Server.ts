@@ -0,0 +1,56 @@
+import * as net from 'net';
+
+import { TYPE_JSON } from '../protocol';
+
+/**
+ * Stands in for AutoJs6 in server mode, saying hello on every accepted connection.
+ */
+export class FakeAutoJs6Server {
+    readonly sockets: net.Socket[] = [];
+    /**
+     * Offered in hello, none by default like builds predating protocol version 2.
+     */
+    capabilities: string[] = [];
+    answersPing = true;
+    private readonly server = net.createServer(socket => this.accept(socket));
+
+    listen(): Promise<number> {
+        return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => resolve((this.server.address() as net.AddressInfo).port)));
+    }
+
+    close() {
+        this.sockets.forEach(socket => socket.destroy());
+        this.server.close();
+    }
+
+    private accept(socket: net.Socket) {
+        this.sockets.push(socket);
+        socket.on('error', () => undefined);
+        socket.setEncoding('latin1');
+        socket.on('data', (chunk: string) => {
+            // Frame headers are skipped, only the payload of pings is of interest.
+            for (let [ , id ] of Array.from(chunk.matchAll(/"id":(\d+),"type":"ping"/g))) {
+                this.answersPing && socket.write(frameOf({ type: 'pong', data: { id: Number(id) } }));
+            }
+        });
+        socket.write(frameOf({
+            type: 'hello',
+            data: {
+                device_id: 'a1',
+                device_name: 'Pixel 7',
+                app_version: '6.6.0',
+                app_version_code: '99999',
+                protocol_version: '2',
+                capabilities: this.capabilities,
+            },
+        }));
+    }
+}
+
+function frameOf(message: object) {
+    let data = Buffer.from(JSON.stringify(message), 'utf-8');
+    let header = Buffer.alloc(8);
+    header.writeInt32BE(data.length, 0);
+    header.writeInt32BE(TYPE_JSON, 4);
+    return Buffer.concat([ header, data ]);
+}
@@ -1,15 +1,22 @@
 //
-// PLEASE DO NOT MODIFY / DELETE UNLESS YOU KNOW WHAT YOU ARE DOING
+// Entry point of the extension tests, called by the extension host (see runTest.ts and the "Launch Tests" configuration).
+// Runs every "*.test.js" file next to this one with Mocha, using the TDD interface (suite / test / setup / teardown).
 //
-// This file is providing the test runner to use when running extension tests.
-// By default the test runner in use is Mocha based.
-//
-// You can provide your own test runner if you want to override it by exporting
-// a function run(testRoot: string, clb: (error:Error) => void) that the extension
-// host can call to run the tests. The test runner is expected to use console.log
-// to report the results back to the caller. When the tests are finished, return
-// a possible error to the callback or null if none.
 
-import { runTests } from '@vscode/test-electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha = require('mocha');
+
+export function run(): Promise<void> {
+    let mocha = new Mocha({ ui: 'tdd', timeout: 10e3 });
+
+    fs.readdirSync(__dirname)
+        .filter(file => file.endsWith('.test.js'))
+        .forEach(file => mocha.addFile(path.join(__dirname, file)));
 
-module.exports = runTests;
\ No newline at end of file
+    return new Promise((resolve, reject) => {
+        mocha.run((failures) => {
+            failures > 0 ? reject(new Error(`${failures} 个测试未通过`)) : resolve();
+        });
+    });
+}
@@ -0,0 +1,25 @@
+import { Memento } from 'vscode';
+
+/**
+ * In-memory stand-in for the workspace or global state of the extension.
+ */
+export class MemoryMemento implements Memento {
+    private readonly values = new Map<string, any>();
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    get<T>(key: string, defaultValue?: T): T {
+        return this.values.has(key) ? this.values.get(key) : defaultValue;
+    }
+
+    update(key: string, value: any): Thenable<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+        return Promise.resolve();
+    }
+}
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { Pairing } from '../pairing';
+import { MemoryMemento } from './memento';
+
+function createPairing(globalState = new MemoryMemento()) {
+    let context = { workspaceState: new MemoryMemento(), globalState } as unknown as vscode.ExtensionContext;
+    return new Pairing(context);
+}
+
+suite('Pairing Tests', () => {
+
+    test('pairs with the pairing code, then accepts the issued token', () => {
+        let pairing = createPairing();
+        let paired = pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: pairing.pairingCode });
+
+        assert.equal(paired.accepted, true);
+        assert.ok(/^[\da-f]{64}$/.test(paired.pairingToken));
+        assert.equal(pairing.isTrusted('a1'), true);
+        assert.ok(!JSON.stringify(pairing.trustedDevices).includes(paired.pairingToken), 'only the hash of the token is stored');
+        assert.deepEqual(pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingToken: paired.pairingToken }), { accepted: true });
+    });
+
+    test('rejects unpaired devices and invalid tokens', () => {
+        let pairing = createPairing();
+        let { pairingToken } = pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: pairing.pairingCode });
+
+        assert.equal(pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11' }).accepted, false);
+        assert.equal(pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11', pairingToken }).accepted, false);
+        assert.deepEqual(pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingToken: 'forged' }), {
+            accepted: false,
+            reason: '配对令牌无效, 请重新配对',
+        });
+    });
+
+    test('renews the pairing code after too many wrong attempts', () => {
+        let pairing = createPairing();
+        let code = pairing.pairingCode;
+        let wrongCode = code === '000000' ? '000001' : '000000';
+
+        for (let attempt = 0; attempt < 4; attempt += 1) {
+            assert.equal(pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11', pairingCode: wrongCode }).accepted, false);
+        }
+        assert.equal(pairing.pairingCode, code);
+        pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11', pairingCode: wrongCode });
+
+        assert.notEqual(pairing.pairingCode, code);
+        assert.equal(pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11', pairingCode: code }).accepted, false);
+        assert.equal(pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11', pairingCode: pairing.pairingCode }).accepted, true);
+    });
+
+    test('accepts a one-time code once', () => {
+        let pairing = createPairing();
+        let code = pairing.issueOneTimeCode();
+
+        assert.equal(pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: code }).accepted, true);
+        assert.equal(pairing.verify({ deviceId: 'b2', deviceName: 'Mi 11', pairingCode: code }).accepted, false);
+    });
+
+    test('refuses expired or revoked one-time codes', () => {
+        let pairing = createPairing();
+        let revoked = pairing.issueOneTimeCode();
+        pairing.revokeOneTimeCode(revoked);
+        assert.equal(pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: revoked }).accepted, false);
+
+        let expired = pairing.issueOneTimeCode();
+        let now = Date.now;
+        Date.now = () => now() + 11 * 60e3;
+        try {
+            assert.equal(pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: expired }).accepted, false);
+        } finally {
+            Date.now = now;
+        }
+    });
+
+    test('shares trusted devices across workspaces', () => {
+        let globalState = new MemoryMemento();
+        let first = createPairing(globalState);
+        let second = createPairing(globalState);
+        let { pairingToken } = first.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: first.pairingCode });
+
+        assert.equal(second.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingToken }).accepted, true);
+    });
+
+    test('forgets revoked devices', async () => {
+        let pairing = createPairing();
+        let { pairingToken } = pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingCode: pairing.pairingCode });
+
+        await pairing.revoke('a1');
+        assert.equal(pairing.isTrusted('a1'), false);
+        assert.equal(pairing.verify({ deviceId: 'a1', deviceName: 'Pixel 7', pairingToken }).accepted, false);
+    });
+
+    test('verifies the HTTP token', () => {
+        let pairing = createPairing();
+        assert.equal(pairing.verifyHttpToken(pairing.httpToken), true);
+        assert.equal(pairing.verifyHttpToken('nope'), false);
+        assert.equal(pairing.verifyHttpToken(undefined), false);
+    });
+});
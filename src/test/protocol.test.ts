@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+
+import {
+    AckData, ChecksumMismatchError, compress, COMPRESSION_THRESHOLD, decompress, encodeBinaryBytesFrame, encodeBinaryJsonFrame,
+    encodeFrameHeader, encodeJsonFrame, FrameDecoder, negotiateCapabilities, negotiateCompression, PendingRequests, ProtocolError,
+    ProtocolTimeoutError, SERVER_HEADER_SIZE, TYPE_BYTES, TYPE_BYTES_COMPRESSED, TYPE_JSON, TYPE_JSON_COMPRESSED, verifyChecksum,
+} from '../protocol';
+
+/**
+ * Frame as written by AutoJs6: 4-byte length and 4-byte type (both big-endian), then the payload.
+ */
+function clientFrame(type: number, payload: string) {
+    let header = Buffer.alloc(8);
+    let data = Buffer.from(payload, 'utf-8');
+    header.writeInt32BE(data.length, 0);
+    header.writeInt32BE(type, 4);
+    return Buffer.concat([ header, data ]);
+}
+
+/**
+ * Reads the ASCII length and type of a frame header written by the extension.
+ */
+function parseServerHeader(header: Buffer) {
+    let length = parseInt(header.toString('latin1', 0, SERVER_HEADER_SIZE - 2));
+    let type = parseInt(header.toString('latin1', SERVER_HEADER_SIZE - 2, SERVER_HEADER_SIZE));
+    return { length, type };
+}
+
+suite('Protocol Tests', () => {
+
+    suite('PendingRequests', () => {
+
+        test('resolves a request with its ack', async () => {
+            let requests = new PendingRequests();
+            let promise = requests.add(1);
+            assert.equal(requests.settle({ id: 1, status: 'ok', result: { md5: 'abc' } }), true);
+            assert.deepEqual((await promise).result, { md5: 'abc' });
+            assert.equal(requests.size, 0);
+        });
+
+        test('rejects a request answered with an error', async () => {
+            let requests = new PendingRequests();
+            let promise = requests.add(2);
+            requests.settle({ id: 2, status: 'error', error: 'script not found' });
+            await assert.rejects(promise, (e: ProtocolError) => e instanceof ProtocolError && e.requestId === 2 && e.message === 'script not found');
+        });
+
+        test('ignores acks of unknown requests', () => {
+            let requests = new PendingRequests();
+            assert.equal(requests.settle({ id: 3, status: 'ok' }), false);
+            assert.equal(requests.settle(undefined as AckData), false);
+        });
+
+        test('times out requests left unanswered', async () => {
+            let requests = new PendingRequests();
+            await assert.rejects(requests.add(4, 10), ProtocolTimeoutError);
+            assert.equal(requests.size, 0);
+        });
+
+        test('rejects all pending requests once disconnected', async () => {
+            let requests = new PendingRequests();
+            let promises = [ requests.add(5), requests.add(6) ];
+            requests.rejectAll('disconnected');
+            for (let promise of promises) {
+                await assert.rejects(promise, /disconnected/);
+            }
+            assert.equal(requests.size, 0);
+        });
+    });
+
+    suite('Capability negotiation', () => {
+
+        test('keeps the offered capabilities the extension supports', () => {
+            let capabilities = negotiateCapabilities([ 'ack', 'heartbeat', 'teleport', 'binary_frames' ]);
+            assert.deepEqual(Array.from(capabilities).sort(), [ 'ack', 'binary_frames', 'heartbeat' ]);
+        });
+
+        test('falls back on no capability for legacy or malformed hellos', () => {
+            assert.equal(negotiateCapabilities(undefined).size, 0);
+            assert.equal(negotiateCapabilities('ack,heartbeat').size, 0);
+            assert.equal(negotiateCapabilities([]).size, 0);
+        });
+    });
+
+    suite('FrameDecoder', () => {
+
+        test('joins a frame split across chunks', () => {
+            let frames: [ number, string ][] = [];
+            let decoder = new FrameDecoder((type, data) => frames.push([ type, data.toString('utf-8') ]));
+            let frame = clientFrame(TYPE_JSON, '{"type":"log","data":{"log":"你好"}}');
+
+            decoder.push(frame.subarray(0, 12));
+            assert.equal(frames.length, 0);
+            decoder.push(frame.subarray(12));
+            assert.deepEqual(frames, [ [ TYPE_JSON, '{"type":"log","data":{"log":"你好"}}' ] ]);
+        });
+
+        test('splits several frames received in one chunk', () => {
+            let frames: [ number, string ][] = [];
+            let decoder = new FrameDecoder((type, data) => frames.push([ type, data.toString('utf-8') ]));
+
+            decoder.push(Buffer.concat([ clientFrame(TYPE_JSON, '{"a":1}'), clientFrame(TYPE_BYTES, 'raw'), clientFrame(TYPE_JSON, '{}') ]));
+            assert.deepEqual(frames, [ [ TYPE_JSON, '{"a":1}' ], [ TYPE_BYTES, 'raw' ], [ TYPE_JSON, '{}' ] ]);
+        });
+    });
+
+    suite('Frame encoding', () => {
+
+        test('writes the length and type of legacy JSON frames', () => {
+            let message = { id: 1, type: 'command', data: { command: 'run' } };
+            let [ header, payload ] = encodeJsonFrame(message);
+            let length = String(payload.length);
+            // Legacy headers are not zero-filled, so only the written characters are compared.
+            assert.equal(header.length, SERVER_HEADER_SIZE);
+            assert.equal(header.toString('latin1', 0, length.length), length);
+            assert.equal(header.toString('latin1', SERVER_HEADER_SIZE - 2, SERVER_HEADER_SIZE - 1), String(TYPE_JSON));
+            assert.deepEqual(JSON.parse(payload.toString('utf-8')), message);
+        });
+
+        test('counts bytes rather than characters in binary JSON frames', () => {
+            let message = { id: 2, type: 'command', data: { script: 'toast("你好")' } };
+            let [ header, payload ] = encodeBinaryJsonFrame(message);
+            assert.deepEqual(parseServerHeader(header), { length: Buffer.byteLength(JSON.stringify(message)), type: TYPE_JSON });
+            assert.equal(payload.length, Buffer.byteLength(JSON.stringify(message)));
+        });
+
+        test('zero-fills frame headers', () => {
+            assert.equal(encodeFrameHeader(42, TYPE_BYTES).toString('latin1'), '42' + '\0'.repeat(12) + '2\0');
+        });
+    });
+
+    suite('Compression', () => {
+
+        test('prefers deflate among the offered modes', () => {
+            assert.equal(negotiateCompression([ 'gzip', 'deflate' ]), 'deflate');
+            assert.equal(negotiateCompression([ 'brotli', 'gzip' ]), 'gzip');
+            assert.equal(negotiateCompression([ 'brotli' ]), null);
+            assert.equal(negotiateCompression(undefined), null);
+        });
+
+        test('round-trips payloads in both modes', () => {
+            let data = Buffer.from('console.log("AutoJs6");\n'.repeat(100));
+            assert.deepEqual(decompress('deflate', compress('deflate', data)), data);
+            assert.deepEqual(decompress('gzip', compress('gzip', data)), data);
+        });
+
+        test('compresses large payloads only', () => {
+            let large = Buffer.from('a'.repeat(COMPRESSION_THRESHOLD * 4));
+            let [ header, payload ] = encodeBinaryBytesFrame(large, 'deflate');
+            assert.deepEqual(parseServerHeader(header), { length: payload.length, type: TYPE_BYTES_COMPRESSED });
+            assert.deepEqual(decompress('deflate', payload), large);
+
+            let small = Buffer.from('a'.repeat(COMPRESSION_THRESHOLD - 1));
+            assert.equal(parseServerHeader(encodeBinaryBytesFrame(small, 'deflate')[0]).type, TYPE_BYTES);
+        });
+
+        test('sends incompressible payloads as they are', () => {
+            let random = crypto.randomBytes(COMPRESSION_THRESHOLD * 4);
+            let [ header, payload ] = encodeBinaryBytesFrame(random, 'gzip');
+            assert.equal(parseServerHeader(header).type, TYPE_BYTES);
+            assert.deepEqual(payload, random);
+        });
+
+        test('marks compressed JSON frames', () => {
+            let message = { type: 'command', data: { script: 'toast(1);'.repeat(COMPRESSION_THRESHOLD) } };
+            let [ header, payload ] = encodeBinaryJsonFrame(message, 'gzip');
+            assert.equal(parseServerHeader(header).type, TYPE_JSON_COMPRESSED);
+            assert.deepEqual(JSON.parse(decompress('gzip', payload).toString('utf-8')), message);
+        });
+    });
+
+    suite('Checksum verification', () => {
+
+        test('accepts matching checksums regardless of case', () => {
+            assert.doesNotThrow(() => verifyChecksum('9e107d9d372bb6826bd81d3542a419d6', '9E107D9D372BB6826BD81D3542A419D6'));
+        });
+
+        test('accepts replies without a checksum', () => {
+            assert.doesNotThrow(() => verifyChecksum('9e107d9d372bb6826bd81d3542a419d6', undefined));
+            assert.doesNotThrow(() => verifyChecksum('9e107d9d372bb6826bd81d3542a419d6', 42));
+        });
+
+        test('rejects mismatching checksums', () => {
+            assert.throws(() => verifyChecksum('9e107d9d372bb6826bd81d3542a419d6', 'd41d8cd98f00b204e9800998ecf8427e'), ChecksumMismatchError);
+        });
+    });
+});
@@ -0,0 +1,14 @@
+//
+// Runs the extension tests in a VSCode instance downloaded by @vscode/test-electron ("npm test").
+//
+
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+runTests({
+    extensionDevelopmentPath: path.resolve(__dirname, '../../'),
+    extensionTestsPath: path.resolve(__dirname, './index'),
+}).catch((e) => {
+    console.error('Failed to run tests: ', e);
+    process.exit(1);
+});
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+
+import { Device, DeviceState } from '../device';
+import { AckData, ChecksumMismatchError } from '../protocol';
+import { ByteTransfer, CHUNK_SIZE, TransferCancelledError } from '../transfer';
+
+/**
+ * Stands in for a device with "binary_frames", recording requests and the chunks written.
+ */
+class FakeDevice {
+    state: DeviceState = 'attached';
+    requests: [ string, any ][] = [];
+    chunks: Buffer[] = [];
+    received = 0;
+    /**
+     * Answers requests by type, acknowledging with an empty result by default.
+     */
+    replies: { [type: string]: (data: any) => Partial<AckData> } = {};
+    /**
+     * Called before each chunk is written, failing the write when it throws.
+     */
+    beforeWrite: (index: number) => void = () => undefined;
+
+    request(type: string, data: any): Promise<AckData> {
+        this.requests.push([ type, data ]);
+        return Promise.resolve({ id: this.requests.length, status: 'ok', ...this.replies[type]?.(data) });
+    }
+
+    writeBytesFrame(chunk: Buffer): Promise<void> {
+        try {
+            this.beforeWrite(this.chunks.length);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+        this.chunks.push(chunk);
+        this.received += chunk.length;
+        return Promise.resolve();
+    }
+
+    waitForAttach(): Promise<void> {
+        this.state = 'attached';
+        return Promise.resolve();
+    }
+
+    get types() {
+        return this.requests.map(([ type ]) => type);
+    }
+}
+
+function transferOf(device: FakeDevice, bytes: Buffer, options = {}) {
+    return new ByteTransfer(device as unknown as Device, bytes, options);
+}
+
+function md5Of(bytes: Buffer) {
+    return crypto.createHash('md5').update(bytes).digest('hex');
+}
+
+suite('ByteTransfer Tests', () => {
+
+    test('sends the payload in chunks between bytes_begin and bytes_end', async () => {
+        let device = new FakeDevice();
+        let bytes = crypto.randomBytes(CHUNK_SIZE * 2 + 100);
+        let progress: number[] = [];
+        let transfer = transferOf(device, bytes, { onProgress: (sent: number) => progress.push(sent) });
+
+        assert.equal(await transfer.run(), transfer.transferId);
+        assert.deepEqual(device.types, [ 'bytes_begin', 'bytes_end' ]);
+        assert.deepEqual(device.requests[0][1], { transfer_id: transfer.transferId, size: bytes.length, md5: md5Of(bytes) });
+        assert.deepEqual(device.chunks.map(chunk => chunk.length), [ CHUNK_SIZE, CHUNK_SIZE, 100 ]);
+        assert.deepEqual(Buffer.concat(device.chunks), bytes);
+        assert.deepEqual(progress, [ 0, CHUNK_SIZE, CHUNK_SIZE * 2, bytes.length ]);
+    });
+
+    test('continues from the offset reported by the device', async () => {
+        let device = new FakeDevice();
+        let bytes = crypto.randomBytes(CHUNK_SIZE + 10);
+        device.replies['bytes_begin'] = () => ({ result: { offset: CHUNK_SIZE } });
+
+        await transferOf(device, bytes).run();
+        assert.deepEqual(Buffer.concat(device.chunks), bytes.subarray(CHUNK_SIZE));
+    });
+
+    test('ignores offsets out of range', async () => {
+        let device = new FakeDevice();
+        let bytes = crypto.randomBytes(10);
+        device.replies['bytes_begin'] = () => ({ result: { offset: -5 } });
+
+        await transferOf(device, bytes).run();
+        assert.deepEqual(Buffer.concat(device.chunks), bytes);
+    });
+
+    test('resumes after the device has reconnected', async () => {
+        let device = new FakeDevice();
+        let bytes = crypto.randomBytes(CHUNK_SIZE * 3);
+        device.beforeWrite = (index) => {
+            if (index === 1 && device.types.length === 1) {
+                device.state = 'reconnecting';
+                throw new Error('socket closed');
+            }
+        };
+        device.replies['bytes_begin'] = () => ({ result: { offset: device.received } });
+
+        await transferOf(device, bytes).run();
+        assert.deepEqual(device.types, [ 'bytes_begin', 'bytes_begin', 'bytes_end' ]);
+        assert.deepEqual(Buffer.concat(device.chunks), bytes);
+    });
+
+    test('fails without retrying while the device is not reconnecting', async () => {
+        let device = new FakeDevice();
+        device.beforeWrite = () => {
+            throw new Error('socket closed');
+        };
+
+        await assert.rejects(transferOf(device, crypto.randomBytes(10)).run(), /socket closed/);
+        assert.deepEqual(device.types, [ 'bytes_begin' ]);
+    });
+
+    test('sends bytes_cancel when cancelled', async () => {
+        let device = new FakeDevice();
+        let token = { isCancellationRequested: false };
+        device.beforeWrite = () => {
+            token.isCancellationRequested = true;
+        };
+        let transfer = transferOf(device, crypto.randomBytes(CHUNK_SIZE * 2), { token });
+
+        await assert.rejects(transfer.run(), TransferCancelledError);
+        assert.equal(device.chunks.length, 1);
+        assert.deepEqual(device.requests.pop(), [ 'bytes_cancel', { transfer_id: transfer.transferId } ]);
+    });
+
+    test('sends bytes_cancel when the checksum does not match', async () => {
+        let device = new FakeDevice();
+        device.replies['bytes_end'] = () => ({ result: { md5: 'd41d8cd98f00b204e9800998ecf8427e' } });
+
+        await assert.rejects(transferOf(device, Buffer.from('payload')).run(), ChecksumMismatchError);
+        assert.deepEqual(device.types, [ 'bytes_begin', 'bytes_end', 'bytes_cancel' ]);
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+
+import { addressOfInterface, formatHostPort, normalizeAddress, parseHostPort } from '../util';
+
+suite('Util Tests', () => {
+
+    suite('parseHostPort', () => {
+
+        test('parses IPv4 addresses and host names with or without a port', () => {
+            assert.deepEqual(parseHostPort('192.168.1.5'), { host: '192.168.1.5', port: null });
+            assert.deepEqual(parseHostPort(' 192.168.1.5:6347 '), { host: '192.168.1.5', port: 6347 });
+            assert.deepEqual(parseHostPort('pixel-7.local:7347'), { host: 'pixel-7.local', port: 7347 });
+        });
+
+        test('parses IPv6 addresses, bracketed when a port is given', () => {
+            assert.deepEqual(parseHostPort('fe80::1'), { host: 'fe80::1', port: null });
+            assert.deepEqual(parseHostPort('[fe80::1]'), { host: 'fe80::1', port: null });
+            assert.deepEqual(parseHostPort('[2001:db8::5]:6347'), { host: '2001:db8::5', port: 6347 });
+        });
+
+        test('leaves the range of the port to the caller', () => {
+            assert.deepEqual(parseHostPort('192.168.1.5:99999'), { host: '192.168.1.5', port: 99999 });
+        });
+
+        test('rejects malformed input', () => {
+            for (let input of [ '', '192.168.1', '192.168.1.5:', '192.168.1.5:port', '[192.168.1.5]:6347', '[fe80::1', 'pixel_7', 'a:b:c' ]) {
+                assert.equal(parseHostPort(input), null, input);
+            }
+        });
+    });
+
+    suite('formatHostPort', () => {
+
+        test('brackets IPv6 addresses only when a port is attached', () => {
+            assert.equal(formatHostPort('192.168.1.5', 6347), '192.168.1.5:6347');
+            assert.equal(formatHostPort('2001:db8::5', 6347), '[2001:db8::5]:6347');
+            assert.equal(formatHostPort('2001:db8::5'), '2001:db8::5');
+            assert.equal(formatHostPort('pixel-7.local', null), 'pixel-7.local');
+        });
+
+        test('round-trips with parseHostPort', () => {
+            for (let [ host, port ] of [ [ '192.168.1.5', 6347 ], [ '2001:db8::5', 7347 ], [ 'pixel-7.local', null ] ] as [ string, number ][]) {
+                assert.deepEqual(parseHostPort(formatHostPort(host, port)), { host, port });
+            }
+        });
+    });
+
+    suite('normalizeAddress', () => {
+
+        test('strips the prefix of IPv4-mapped addresses', () => {
+            assert.equal(normalizeAddress('::ffff:192.168.1.5'), '192.168.1.5');
+            assert.equal(normalizeAddress('::FFFF:10.0.0.2'), '10.0.0.2');
+        });
+
+        test('keeps other addresses', () => {
+            assert.equal(normalizeAddress('192.168.1.5'), '192.168.1.5');
+            assert.equal(normalizeAddress('::ffff:c0a8:105'), '::ffff:c0a8:105');
+            assert.equal(normalizeAddress('2001:db8::5'), '2001:db8::5');
+            assert.equal(normalizeAddress(undefined), undefined);
+        });
+    });
+
+    suite('addressOfInterface', () => {
+
+        test('prefers IPv4 and falls back on IPv6', () => {
+            assert.equal(addressOfInterface({ iface: 'wlan0', ip4: '192.168.1.2', ip6: '2001:db8::2', mac: '' }), '192.168.1.2');
+            assert.equal(addressOfInterface({ iface: 'wg0', ip6: '2001:db8::3', mac: '' }), '2001:db8::3');
+        });
+    });
+});
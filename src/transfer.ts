@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+import { Device } from './device';
+import { logDebug } from './extension';
+import { ChecksumMismatchError, verifyChecksum } from './protocol';
+
+export const CHUNK_SIZE = 64 * 1024;
+
+const TRANSFER_END_TIMEOUT = 30e3;
+const RESUME_TIMEOUT = 60e3;
+const MAX_RESUME_ATTEMPTS = 3;
+
+export interface TransferOptions {
+    token?: vscode.CancellationToken;
+    onProgress?: (sent: number, total: number) => void;
+}
+
+export class TransferCancelledError extends Error {
+    constructor() {
+        super('传输已取消');
+    }
+}
+
+/**
+ * Uploads a byte payload in chunks over a "binary_frames" connection.
+ *
+ * The transfer id survives reconnection, so AutoJs6 can report how many bytes it has already received
+ * and the upload continues from there instead of starting over.
+ */
+export class ByteTransfer {
+    readonly transferId: string = crypto.randomBytes(8).toString('hex');
+    readonly md5: string;
+
+    private readonly device: Device;
+    private readonly bytes: Buffer;
+    private readonly options: TransferOptions;
+
+    constructor(device: Device, bytes: Buffer, options: TransferOptions = {}) {
+        this.device = device;
+        this.bytes = bytes;
+        this.options = options;
+        this.md5 = crypto.createHash('md5').update(bytes).digest('hex');
+    }
+
+    async run(): Promise<string> {
+        logDebug(`## [m] ByteTransfer.run (${this.transferId}, ${this.bytes.length} bytes)`);
+
+        let resumeAttempts = 0;
+        for (;;) {
+            try {
+                this.throwIfCancelled();
+                await this.upload();
+                return this.transferId;
+            } catch (e) {
+                if (e instanceof TransferCancelledError || e instanceof ChecksumMismatchError) {
+                    // Let AutoJs6 discard what it has received so far.
+                    this.device.request('bytes_cancel', { transfer_id: this.transferId }).catch(logDebug);
+                    throw e;
+                }
+                if (this.device.state !== 'reconnecting' || ++resumeAttempts > MAX_RESUME_ATTEMPTS) {
+                    throw e;
+                }
+                logDebug(`transfer ${this.transferId} interrupted, waiting for reconnection: ${e.message}`);
+                await this.device.waitForAttach(RESUME_TIMEOUT);
+            }
+        }
+    }
+
+    private async upload() {
+        let size = this.bytes.length;
+        let begin = await this.device.request('bytes_begin', {
+            transfer_id: this.transferId,
+            size: size,
+            md5: this.md5,
+        });
+        let offset = Math.min(Math.max(Number(begin.result?.offset) || 0, 0), size);
+        if (offset > 0) {
+            logDebug(`resuming transfer ${this.transferId} from ${offset}/${size}`);
+        }
+        this.options.onProgress?.(offset, size);
+
+        while (offset < size) {
+            this.throwIfCancelled();
+            let chunk = this.bytes.subarray(offset, offset + CHUNK_SIZE);
+            await this.device.writeBytesFrame(chunk);
+            offset += chunk.length;
+            this.options.onProgress?.(offset, size);
+        }
+        let end = await this.device.request('bytes_end', { transfer_id: this.transferId }, { timeout: TRANSFER_END_TIMEOUT });
+        verifyChecksum(this.md5, end.result?.md5);
+    }
+
+    private throwIfCancelled() {
+        if (this.options.token?.isCancellationRequested) {
+            throw new TransferCancelledError();
+        }
+    }
+}
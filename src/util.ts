@@ -1,4 +1,5 @@
 import * as os from 'os';
+import * as net from 'net';
 import * as crypto from 'crypto';
 import * as si from 'systeminformation';
 
@@ -13,6 +14,10 @@ export function getBasicNetworkInterfaces(): NIDetails[] {
         if (/\b(vmware|vmnet\d*)\b/i.test(iface)) {
             continue;
         }
+        // 同一网卡上的全局 IPv6 地址 (排除 fe80:: 链路本地地址)
+        let ip6Info = infos?.find(info => info.family === 'IPv6' && !info.internal && !/^fe80:/i.test(info.address));
+        let ip6 = ip6Info?.address;
+        let count = result.length;
         infos?.forEach(info => {
             if (
                 info.family === 'IPv4' &&
@@ -23,17 +28,30 @@ export function getBasicNetworkInterfaces(): NIDetails[] {
                 let basic = {
                     iface, // 网卡名称
                     ip4: info.address,
+                    ip6,
+                    netmask: info.netmask,
                     mac: info.mac,
                 };
                 // logDebug(`已获取基本信息:`, basic); // 打印基本信息
                 result.push(basic);
             }
         });
+        // 仅有 IPv6 地址的网卡
+        if (result.length === count && ip6Info !== undefined) {
+            result.push({ iface, ip6, mac: ip6Info.mac });
+        }
     }
 
     return result;
 }
 
+/**
+ * The address to reach the interface with, IPv4 unless the interface only has an IPv6 address.
+ */
+export function addressOfInterface(ni: NIDetails): string {
+    return ni.ip4 ?? ni.ip6;
+}
+
 export async function getDetailedNetworkInterfaces(ref: NIDetails[]): Promise<NIDetails[]> {
     try {
         let detailedInfo = await si.networkInterfaces();
@@ -60,11 +78,96 @@ export async function getDetailedNetworkInterfaces(ref: NIDetails[]): Promise<NI
     }
 }
 
+/**
+ * Finds the first port after the given one that can be bound, e.g. when another VSCode window holds the port.
+ */
+export async function findNextAvailablePort(port: number, attempts: number = 20): Promise<number> {
+    for (let candidate = port + 1; candidate <= Math.min(port + attempts, 65535); candidate += 1) {
+        let isAvailable = await new Promise<boolean>((resolve) => {
+            let server = net.createServer();
+            server.unref();
+            server.once('error', () => resolve(false));
+            server.listen(candidate, () => server.close(() => resolve(true)));
+        });
+        if (isAvailable) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+/**
+ * Parses a server address typed by the user: IPv4, hostname (incl. `.local`), bare IPv6 or `[IPv6]:port`.
+ * Returns null when the input is none of them; port is null when omitted and is not range-checked.
+ */
+export function parseHostPort(input: string): { host: string, port: number | null } | null {
+    let text = input.trim();
+    let host: string;
+    let port: string = null;
+
+    let bracketed = text.match(/^\[([^\]]+)](?::(\d+))?$/);
+    if (bracketed) {
+        [ , host, port ] = bracketed;
+        if (!net.isIPv6(host)) {
+            return null;
+        }
+    } else if (net.isIPv6(text)) {
+        host = text;
+    } else {
+        let matched = text.match(/^([^:]+)(?::(\d+))?$/);
+        if (!matched) {
+            return null;
+        }
+        [ , host, port ] = matched;
+        if (!net.isIPv4(host) && !isHostName(host)) {
+            return null;
+        }
+    }
+    return { host, port: port === undefined || port === null ? null : Number(port) };
+}
+
+function isHostName(host: string): boolean {
+    let labels = host.replace(/\.$/, '').split('.');
+    // 全数字的名称 (如 "192.168.1") 多为输错的 IPv4 地址, 不视为主机名
+    return labels.every(label => /^[a-z\d]([a-z\d-]{0,61}[a-z\d])?$/i.test(label))
+        && !labels.every(label => /^\d+$/.test(label));
+}
+
+/**
+ * Formats an address for display or storage, bracketing IPv6 literals when a port is attached.
+ */
+export function formatHostPort(host: string, port?: number | null): string {
+    if (port === undefined || port === null) {
+        return host;
+    }
+    return net.isIPv6(host) ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+/**
+ * Strips the `::ffff:` prefix of IPv4-mapped IPv6 addresses reported by dual-stack sockets.
+ */
+export function normalizeAddress(address: string): string {
+    return address?.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+}
+
 export function buffToString(buff) {
     const decoder = new StringDecoder('utf8');
     return decoder.write(buff);
 }
 
+export function formatDateTime(timestamp: number): string {
+    let date = new Date(timestamp);
+
+    let yyyy = date.getFullYear();
+    let MM = String((date.getMonth() + 1)).padStart(2, '0');
+    let dd = String(date.getDate()).padStart(2, '0');
+    let HH = String(date.getHours()).padStart(2, '0');
+    let mm = String(date.getMinutes()).padStart(2, '0');
+    let ss = String(date.getSeconds()).padStart(2, '0');
+
+    return `${yyyy}/${MM}/${dd} ${HH}:${mm}:${ss}`;
+}
+
 export function SHA1(str): string {
     return crypto.createHash('sha1').update(str).digest().toString('base64');
 }
@@ -72,7 +175,9 @@ export function SHA1(str): string {
 export interface NIDetails {
     iface: string;           // 网络接口名称
     ifaceName?: string;      // 网卡详细名称 (详细信息)
-    ip4: string;             // IPv4 地址
+    ip4?: string;            // IPv4 地址 (仅有 IPv6 地址的网卡没有)
+    ip6?: string;            // 全局 IPv6 地址 (如有)
+    netmask?: string;        // IPv4 子网掩码
     mac: string;             // MAC 地址
     type?: string;           // 网卡类型: wired / wireless (详细信息)
     speed?: number | string; // 网卡速率: 数字或 'N/A' (详细信息)